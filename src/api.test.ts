@@ -0,0 +1,86 @@
+/**
+ * HTTP API Tests
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import type { AddressInfo } from 'net';
+import type http from 'http';
+import { startApiServer } from './api.js';
+import { resetRestartState } from './restart/orchestrator.js';
+import type { Config } from './config.js';
+
+vi.mock('./logger.js', () => ({
+  log: vi.fn(),
+}));
+
+vi.mock('./restart/orchestrator.js', () => ({
+  isRestartSuspended: vi.fn(() => false),
+  resetRestartState: vi.fn(),
+  getRestartState: vi.fn(() => ({ consecutiveFailures: 0 })),
+  isRestartInProgress: vi.fn(() => false),
+  getRestartHistory: vi.fn(() => []),
+}));
+
+const config = {
+  nodes: [{ ip: '10.0.0.1', name: 'node1' }],
+  managedLayers: ['dl1'],
+} as unknown as Config;
+
+async function listen(token?: string): Promise<{ server: http.Server; url: string }> {
+  const server = startApiServer(config, { enabled: true, port: 0, token })!;
+  await new Promise(resolve => server.once('listening', resolve));
+  return { server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}` };
+}
+
+describe('HTTP API', () => {
+  let api: { server: http.Server; url: string };
+
+  beforeAll(async () => {
+    api = await listen('s3cret');
+  });
+
+  afterAll(() => {
+    api.server.close();
+  });
+
+  it('allows cross-origin reads but not cross-origin POSTs', async () => {
+    const status = await fetch(`${api.url}/api/status`);
+    expect(status.headers.get('access-control-allow-origin')).toBe('*');
+
+    const preflight = await fetch(`${api.url}/api/restart`, { method: 'OPTIONS' });
+    expect(preflight.headers.get('access-control-allow-methods')).toBe('GET, OPTIONS');
+
+    const post = await fetch(`${api.url}/api/reset`, { method: 'POST', headers: { Authorization: 'Bearer s3cret' } });
+    expect(post.status).toBe(200);
+    expect(post.headers.get('access-control-allow-origin')).toBeNull();
+  });
+
+  it('requires the bearer token on POST routes', async () => {
+    for (const path of ['/api/restart', '/api/config/reload', '/api/reset']) {
+      expect((await fetch(`${api.url}${path}`, { method: 'POST' })).status).toBe(401);
+      expect((await fetch(`${api.url}${path}`, { method: 'POST', headers: { Authorization: 'Bearer wrong' } })).status).toBe(401);
+    }
+    expect(resetRestartState).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses request bodies that are not JSON', async () => {
+    const res = await fetch(`${api.url}/api/restart`, {
+      method: 'POST',
+      headers: { Authorization: 'Bearer s3cret', 'Content-Type': 'text/plain' },
+      body: JSON.stringify({ scope: 'full-metagraph' }),
+    });
+    expect(res.status).toBe(415);
+  });
+
+  it('disables restart and reload but keeps reset when no token is configured', async () => {
+    const open = await listen();
+    try {
+      for (const path of ['/api/restart', '/api/config/reload']) {
+        expect((await fetch(`${open.url}${path}`, { method: 'POST', headers: { Authorization: 'Bearer anything' } })).status).toBe(403);
+      }
+      expect((await fetch(`${open.url}/api/reset`, { method: 'POST' })).status).toBe(200);
+    } finally {
+      open.server.close();
+    }
+  });
+});
@@ -5,27 +5,116 @@
  *
  * Endpoints:
  *   GET  /api/status     - Current health status and restart state
- *   GET  /api/history    - Recent restart events
+ *   GET  /api/history    - Restart events (filters: condition, scope, layer, node,
+ *                          success, since, until; paging: limit, cursor)
+ *   GET  /api/plan       - Preview the restart the watchdog would perform right now
  *   POST /api/reset      - Reset restart suspension (re-enable auto-restarts)
- *   POST /api/restart    - Trigger manual restart (layer or full)
+ *   POST /api/restart    - Trigger manual restart (returns a job id immediately)
+ *   GET  /api/restart    - List manual restart jobs
+ *   GET  /api/restart/:id - Poll a manual restart job (progress + final RestartEvent)
+ *   POST /api/config/reload - Reload config file/env; returns the applied diff (422 if invalid)
+ *   GET  /metrics        - Prometheus metrics (text exposition format)
+ *
+ * POST routes change watchdog or cluster state. They take only
+ * application/json bodies and send no CORS headers, so a web page cannot
+ * drive them from a browser. Restart and config reload also require
+ * `Authorization: Bearer <api.token>` and are refused without a token;
+ * reset requires it only once a token is configured, so it keeps working
+ * for deployments that have none.
  */
 
 import http from 'http';
+import { timingSafeEqual } from 'crypto';
 import { URL } from 'url';
 import { log } from './logger.js';
 import {
   isRestartSuspended,
   resetRestartState,
   getRestartState,
+  isRestartInProgress,
+  getRestartHistory,
 } from './restart/orchestrator.js';
+import { parseHistoryQuery, queryHistory } from './restart/history.js';
+import {
+  parseManualRestartRequest,
+  startRestartJob,
+  getRestartJob,
+  listRestartJobs,
+} from './restart/jobs.js';
+import { previewRestartPlan } from './restart/plan.js';
+import { renderMetrics } from './metrics.js';
+import { reloadConfig } from './config-reload.js';
+import type { EventPublisher } from './services/events.js';
+import type { HealthReader } from './services/health-reader.js';
+import type { StallTracker } from './conditions/snapshots-stopped.js';
+import type { DetectionDebouncer } from './conditions/debounce.js';
+import type { NotificationService } from './notifications.js';
 import type { Config } from './config.js';
 
 export interface ApiConfig {
   port: number;
   enabled: boolean;
+  token?: string;
+}
+
+/** Services the API uses to record side effects of manual actions */
+export interface ApiDeps {
+  eventPublisher?: EventPublisher;
+  notificationService?: NotificationService;
+  /** Needed for GET /api/plan */
+  healthReader?: HealthReader;
+  /** Live stall tracker — the plan preview evaluates against a copy */
+  stallTracker?: StallTracker;
+  /** Live detection debouncer — pending/confirmed detections for GET /api/status */
+  debouncer?: DetectionDebouncer;
+  /** Defers POST /api/config/reload until no cycle is running (daemon mode); applied at once without it */
+  runBetweenCycles?: <T>(fn: () => T) => Promise<T>;
+}
+
+/** Largest accepted request body */
+const MAX_BODY_BYTES = 64 * 1024;
+
+/** POST routes that are refused until an API token is configured */
+const TOKEN_REQUIRED_ROUTES = new Set(['/api/restart', '/api/config/reload']);
+
+class BadRequestError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+  }
+}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  let body = '';
+  for await (const chunk of req) {
+    body += chunk;
+    if (body.length > MAX_BODY_BYTES) throw new BadRequestError('Request body too large');
+  }
+  if (!body.trim()) return {};
+  const contentType = req.headers['content-type']?.split(';')[0].trim().toLowerCase();
+  if (contentType !== 'application/json') {
+    throw new BadRequestError('Request body must be application/json', 415);
+  }
+  try {
+    return JSON.parse(body);
+  } catch {
+    throw new BadRequestError('Request body is not valid JSON');
+  }
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body, null, 2));
 }
 
-export function startApiServer(config: Config, apiConfig: ApiConfig): http.Server | null {
+/** Whether the request carries the configured bearer token */
+function isAuthorized(req: http.IncomingMessage, token: string): boolean {
+  const match = /^Bearer (.+)$/.exec(req.headers.authorization ?? '');
+  if (!match) return false;
+  const [given, expected] = [Buffer.from(match[1]), Buffer.from(token)];
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+export function startApiServer(config: Config, apiConfig: ApiConfig, deps: ApiDeps = {}): http.Server | null {
   if (!apiConfig.enabled) {
     log('[API] HTTP API disabled');
     return null;
@@ -36,10 +125,12 @@ export function startApiServer(config: Config, apiConfig: ApiConfig): http.Serve
     const path = url.pathname;
     const method = req.method ?? 'GET';
 
-    // CORS headers
-    res.setHeader('Access-Control-Allow-Origin', '*');
-    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    // CORS for the read-only routes only — browsers may not preflight a POST
+    if (method === 'GET' || method === 'OPTIONS') {
+      res.setHeader('Access-Control-Allow-Origin', '*');
+      res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    }
 
     if (method === 'OPTIONS') {
       res.writeHead(204);
@@ -47,6 +138,19 @@ export function startApiServer(config: Config, apiConfig: ApiConfig): http.Serve
       return;
     }
 
+    if (method === 'POST' && (apiConfig.token || TOKEN_REQUIRED_ROUTES.has(path))) {
+      if (!apiConfig.token) {
+        sendJson(res, 403, { error: `POST ${path} is disabled — set API_TOKEN (api.token) to enable it` });
+        return;
+      }
+      if (!isAuthorized(req, apiConfig.token)) {
+        log(`[API] Rejected unauthenticated POST ${path}`);
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        sendJson(res, 401, { error: 'Missing or invalid API token' });
+        return;
+      }
+    }
+
     try {
       if (path === '/api/status' && method === 'GET') {
         const state = getRestartState();
@@ -56,14 +160,23 @@ export function startApiServer(config: Config, apiConfig: ApiConfig): http.Serve
           consecutiveFailures: state.consecutiveFailures,
           lastRestartTime: state.lastRestartTime?.toISOString() ?? null,
           lastCondition: state.lastCondition ?? null,
+          dryRun: config.dryRun ?? false,
           managedLayers: config.managedLayers,
           nodes: config.nodes.map(n => ({ name: n.name, ip: n.ip })),
+          detections: deps.debouncer?.statuses() ?? [],
         };
         res.writeHead(200, { 'Content-Type': 'application/json' });
         res.end(JSON.stringify(response, null, 2));
         return;
       }
 
+      if (path === '/metrics' && method === 'GET') {
+        const state = getRestartState();
+        res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+        res.end(renderMetrics({ consecutiveFailures: state.consecutiveFailures, suspended: isRestartSuspended() }));
+        return;
+      }
+
       if (path === '/api/reset' && method === 'POST') {
         const wasSuspended = isRestartSuspended();
         resetRestartState();
@@ -79,10 +192,92 @@ export function startApiServer(config: Config, apiConfig: ApiConfig): http.Serve
         return;
       }
 
+      if (path === '/api/history' && method === 'GET') {
+        const { filter, errors } = parseHistoryQuery(url.searchParams);
+        if (errors.length > 0) {
+          sendJson(res, 400, { error: 'Invalid history query', details: errors });
+          return;
+        }
+
+        const persisted = deps.eventPublisher
+          ? await deps.eventPublisher.queryRestartEvents(filter)
+          : [];
+        sendJson(res, 200, queryHistory(getRestartHistory(), persisted, filter));
+        return;
+      }
+
+      if (path === '/api/plan' && method === 'GET') {
+        if (!deps.healthReader || !deps.stallTracker) {
+          sendJson(res, 503, { error: 'Plan preview unavailable (no health reader)' });
+          return;
+        }
+        sendJson(res, 200, await previewRestartPlan(config, deps.healthReader, deps.stallTracker, deps.debouncer));
+        return;
+      }
+
+      if (path === '/api/config/reload' && method === 'POST') {
+        log('[API] Config reload requested via API');
+        const apply = () => reloadConfig(config);
+        const result = await (deps.runBetweenCycles?.(apply) ?? apply());
+        sendJson(res, result.success ? 200 : 422, result);
+        return;
+      }
+
+      if (path === '/api/restart' && method === 'POST') {
+        const { request, errors } = parseManualRestartRequest(await readJsonBody(req), config);
+        if (!request) {
+          sendJson(res, 400, { error: 'Invalid restart request', details: errors });
+          return;
+        }
+
+        if (isRestartInProgress()) {
+          sendJson(res, 409, { error: 'A restart is already in progress' });
+          return;
+        }
+
+        const job = startRestartJob(config, request, async (_job, detection, outcome) => {
+          if (!outcome.event) return;
+          if (outcome.event.dryRun) {
+            await deps.eventPublisher?.publishRestartPlan(detection, outcome.event);
+            return;
+          }
+          await deps.eventPublisher?.publishRestart(
+            detection,
+            outcome.event.scope,
+            outcome.success,
+            outcome.error,
+            outcome.event.timestamp,
+          );
+          await deps.notificationService?.notifyRestartComplete(detection, outcome.event.scope, outcome.success, outcome.error);
+        });
+        log(`[API] Manual ${request.scope} restart requested (job ${job.id})`);
+        sendJson(res, 202, { jobId: job.id, status: job.status, statusUrl: `/api/restart/${job.id}` });
+        return;
+      }
+
+      if (path === '/api/restart' && method === 'GET') {
+        sendJson(res, 200, { jobs: listRestartJobs() });
+        return;
+      }
+
+      if (path.startsWith('/api/restart/') && method === 'GET') {
+        const job = getRestartJob(decodeURIComponent(path.slice('/api/restart/'.length)));
+        if (!job) {
+          sendJson(res, 404, { error: 'Restart job not found' });
+          return;
+        }
+        sendJson(res, 200, job);
+        return;
+      }
+
       // 404 for unknown routes
       res.writeHead(404, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify({ error: 'Not found' }));
     } catch (err) {
+      if (err instanceof BadRequestError) {
+        sendJson(res, err.status, { error: err.message });
+        return;
+      }
       log(`[API] Error handling ${method} ${path}: ${err}`);
       res.writeHead(500, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify({ error: 'Internal server error' }));
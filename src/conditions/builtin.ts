@@ -0,0 +1,84 @@
+/**
+ * Built-in Conditions
+ *
+ * The conditions shipped with the watchdog, in priority order.
+ */
+
+import type { Condition } from './registry.js';
+import { detectForkedClusterFromSnapshot } from './forked-cluster.js';
+import { detectSessionMismatchFromSnapshot } from './session-mismatch.js';
+import { detectSnapshotsStoppedFromSnapshot } from './snapshots-stopped.js';
+import { detectUnhealthyNodesFromSnapshot } from './unhealthy-nodes.js';
+import { detectOrdinalLagFromSnapshot } from './ordinal-lag.js';
+import { detectInvalidHealthDataFromSnapshot } from './invalid-health-data.js';
+import { detectUnknownNodesFromSnapshot } from './unknown-nodes.js';
+import { detectServicesHealth } from './services-health.js';
+import { detectNodeResourceIssues } from './node-resources.js';
+import { detectHypergraphHealth } from './hypergraph-health.js';
+
+export const BUILTIN_CONDITIONS: Condition[] = [
+  {
+    name: 'ForkedCluster',
+    interval: 1,
+    // Heals the minority when a Ready majority exists, full-layer otherwise
+    defaultScope: 'individual-node',
+    detect: ({ config, snapshot }) => detectForkedClusterFromSnapshot(config, snapshot),
+  },
+  {
+    name: 'SessionMismatch',
+    interval: 1,
+    defaultScope: 'individual-node',
+    detect: ({ config, snapshot }) => detectSessionMismatchFromSnapshot(config, snapshot),
+  },
+  {
+    name: 'SnapshotsStopped',
+    interval: 1,
+    defaultScope: 'full-metagraph',
+    detect: ({ config, snapshot, stallTracker }) => detectSnapshotsStoppedFromSnapshot(config, snapshot, stallTracker),
+  },
+  {
+    name: 'UnhealthyNodes',
+    interval: 1,
+    defaultScope: 'full-layer',
+    detect: ({ config, snapshot }) => detectUnhealthyNodesFromSnapshot(config, snapshot),
+  },
+  {
+    name: 'OrdinalLag',
+    interval: 1,
+    defaultScope: 'individual-node',
+    detect: ({ config, snapshot, lagTracker }) => detectOrdinalLagFromSnapshot(config, snapshot, lagTracker),
+  },
+  {
+    name: 'InvalidHealthData',
+    interval: 1,
+    defaultScope: 'none',
+    detect: ({ snapshot }) => detectInvalidHealthDataFromSnapshot(snapshot),
+  },
+  {
+    name: 'UnknownNodes',
+    interval: 1,
+    defaultScope: 'none',
+    detect: ({ snapshot }) => detectUnknownNodesFromSnapshot(snapshot),
+  },
+  {
+    name: 'ServicesHealth',
+    interval: 1,
+    enabled: config => config.servicesNode !== undefined,
+    defaultScope: 'none',
+    detect: ({ config }) => detectServicesHealth(config),
+  },
+  {
+    // Every 3rd cycle to reduce SSH load
+    name: 'NodeResources',
+    interval: 3,
+    defaultScope: 'none',
+    detect: ({ config }) => detectNodeResourceIssues(config),
+  },
+  {
+    name: 'HypergraphHealth',
+    interval: config => config.hypergraph?.checkIntervalMultiplier ?? 1,
+    enabled: config => config.hypergraph?.enabled === true,
+    defaultScope: 'none',
+    detect: ({ config, snapshot }) => detectHypergraphHealth(config, snapshot),
+  },
+];
@@ -0,0 +1,68 @@
+/**
+ * Detection Debouncer Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DetectionDebouncer, describePending } from './debounce.js';
+import type { DetectionResult } from '../types.js';
+
+function result(detected: boolean): DetectionResult {
+  return { detected, condition: 'UnhealthyNodes', details: detected ? 'dl1 on 10.0.0.2 Offline' : '', restartScope: 'full-layer' };
+}
+
+describe('DetectionDebouncer', () => {
+  it('confirms immediately without settings', () => {
+    const debouncer = new DetectionDebouncer();
+    expect(debouncer.observe(result(true))?.state).toBe('confirmed');
+  });
+
+  it('requires N detections within the last M evaluations', () => {
+    const debouncer = new DetectionDebouncer();
+    const settings = { confirmCycles: 2, windowCycles: 3 };
+
+    expect(debouncer.observe(result(true), settings)).toMatchObject({ state: 'pending', hits: 1, required: 2, window: 3 });
+    expect(debouncer.observe(result(false), settings)).toBeNull();
+    expect(debouncer.observe(result(true), settings)?.state).toBe('confirmed');
+
+    // The first detection has slid out of the window: true, false, true → false, true, false → …
+    expect(debouncer.observe(result(false), settings)).toBeNull();
+    expect(debouncer.observe(result(false), settings)).toBeNull();
+    expect(debouncer.observe(result(true), settings)?.state).toBe('pending');
+  });
+
+  it('requires the condition to hold for the minimum duration', () => {
+    const debouncer = new DetectionDebouncer();
+    const settings = { minDurationSecs: 120 };
+    const t0 = Date.parse('2026-01-01T00:00:00Z');
+
+    const first = debouncer.observe(result(true), settings, t0)!;
+    expect(first.state).toBe('pending');
+    expect(describePending(first, t0 + 60_000)).toBe('1/1 of last 1 cycles, held 60s of 120s');
+    expect(debouncer.observe(result(true), settings, t0 + 120_000)?.state).toBe('confirmed');
+
+    // A clean sample restarts the clock
+    debouncer.observe(result(false), settings, t0 + 180_000);
+    expect(debouncer.observe(result(true), settings, t0 + 240_000)?.state).toBe('pending');
+  });
+
+  it('lists detected conditions and forgets cleared ones', () => {
+    const debouncer = new DetectionDebouncer();
+    debouncer.observe(result(true), { confirmCycles: 3 });
+    debouncer.observe({ ...result(true), condition: 'ForkedCluster' });
+    expect(debouncer.statuses().map(s => [s.condition, s.state])).toEqual([
+      ['UnhealthyNodes', 'pending'],
+      ['ForkedCluster', 'confirmed'],
+    ]);
+
+    debouncer.clear('ForkedCluster');
+    expect(debouncer.statuses().map(s => s.condition)).toEqual(['UnhealthyNodes']);
+  });
+
+  it('clones without sharing history', () => {
+    const debouncer = new DetectionDebouncer();
+    debouncer.observe(result(true), { confirmCycles: 2 });
+    const copy = debouncer.clone();
+    expect(copy.observe(result(true), { confirmCycles: 2 })?.state).toBe('confirmed');
+    expect(debouncer.statuses()[0]).toMatchObject({ state: 'pending', hits: 1 });
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Detection Debouncer
+ *
+ * Sits between the detectors and the remediation merge. A detection only
+ * counts once it is confirmed — seen in N of the condition's last M
+ * evaluations and/or held continuously for a minimum duration — so a single
+ * bad Redis sample or a node briefly in DownloadInProgress during normal
+ * catch-up does not trigger a restart.
+ *
+ * Conditions without debounce settings are confirmed on first detection.
+ */
+
+import type { DetectionResult } from '../types.js';
+
+export interface DebounceSettings {
+  /** Detections required within the window (N) */
+  confirmCycles?: number;
+  /** Evaluations considered (M, defaults to N) */
+  windowCycles?: number;
+  /** Seconds the condition must hold continuously */
+  minDurationSecs?: number;
+}
+
+export interface DebounceStatus {
+  condition: string;
+  state: 'pending' | 'confirmed';
+  /** Detections within the window */
+  hits: number;
+  /** Detections required within the window */
+  required: number;
+  window: number;
+  /** When the current continuous detection started */
+  since: string;
+  /** Seconds the condition must hold (if configured) */
+  minDurationSecs?: number;
+  details: string;
+}
+
+interface ConditionHistory {
+  /** Most recent evaluation last; true = detected */
+  samples: boolean[];
+  /** Start of the current continuous detection (ms) */
+  since: number | null;
+  status: DebounceStatus | null;
+}
+
+export class DetectionDebouncer {
+  private readonly history = new Map<string, ConditionHistory>();
+
+  /**
+   * Record a condition's result for this cycle. Returns the debounce status
+   * while it is detected (pending or confirmed), null otherwise.
+   */
+  observe(result: DetectionResult, settings: DebounceSettings = {}, now = Date.now()): DebounceStatus | null {
+    const required = settings.confirmCycles ?? 1;
+    const window = Math.max(settings.windowCycles ?? required, required);
+
+    const entry = this.history.get(result.condition) ?? { samples: [], since: null, status: null };
+    entry.samples.push(result.detected);
+    if (entry.samples.length > window) entry.samples.splice(0, entry.samples.length - window);
+
+    if (!result.detected) {
+      entry.since = null;
+      entry.status = null;
+      this.history.set(result.condition, entry);
+      return null;
+    }
+
+    entry.since ??= now;
+    const hits = entry.samples.filter(Boolean).length;
+    const heldMs = now - entry.since;
+    const confirmed = hits >= required
+      && (settings.minDurationSecs === undefined || heldMs >= settings.minDurationSecs * 1000);
+
+    entry.status = {
+      condition: result.condition,
+      state: confirmed ? 'confirmed' : 'pending',
+      hits,
+      required,
+      window,
+      since: new Date(entry.since).toISOString(),
+      ...(settings.minDurationSecs !== undefined ? { minDurationSecs: settings.minDurationSecs } : {}),
+      details: result.details,
+    };
+    this.history.set(result.condition, entry);
+    return entry.status;
+  }
+
+  /** Forget a condition's history, e.g. after a restart that addressed it */
+  clear(condition: string): void {
+    this.history.delete(condition);
+  }
+
+  /** Currently detected conditions, pending or confirmed */
+  statuses(): DebounceStatus[] {
+    return [...this.history.values()].flatMap(h => (h.status ? [h.status] : []));
+  }
+
+  /** Independent copy — lets the plan preview observe without advancing the live history */
+  clone(): DetectionDebouncer {
+    const copy = new DetectionDebouncer();
+    for (const [condition, h] of this.history) {
+      copy.history.set(condition, { samples: [...h.samples], since: h.since, status: h.status && { ...h.status } });
+    }
+    return copy;
+  }
+}
+
+/** One-line summary of a pending detection for the log */
+export function describePending(status: DebounceStatus, now = Date.now()): string {
+  const parts = [`${status.hits}/${status.required} of last ${status.window} cycles`];
+  if (status.minDurationSecs !== undefined) {
+    const held = Math.floor((now - new Date(status.since).getTime()) / 1000);
+    parts.push(`held ${held}s of ${status.minDurationSecs}s`);
+  }
+  return parts.join(', ');
+}
@@ -16,6 +16,7 @@ import {
   type NodePOV,
   type ClusterFetchFn,
 } from './forked-cluster.js';
+import { toLayerHealth } from '../services/health-sources.js';
 import type { Config } from '../config.js';
 import type { ClusterMember, HealthSnapshot, LayerHealth } from '../types.js';
 
@@ -45,6 +46,8 @@ function makeConfig(nodeCount: number = 3): Config {
     once: false,
     managedLayers: ['gl0', 'ml0', 'dl1'],
     maxConsecutiveFailures: 3,
+    stateStore: 'none',
+    stateFilePath: '',
   };
 }
 
@@ -274,6 +277,34 @@ describe('detectForkedClusterFromSnapshot()', () => {
       { ip: '10.0.0.3', name: 'node3', layers: [{ layer: 'ml0', clusterHash: 'different' }] },
     ]);
 
+    const result = detectForkedClusterFromSnapshot(config, snapshot);
+    expect(result.restartScope).toBe('individual-node');
+    expect(result.fork).toEqual({ layer: 'ml0', majorityNodes: ['10.0.0.1', '10.0.0.2'], minorityNodes: ['10.0.0.3'] });
+  });
+
+  it('recommends full-layer restart when the majority is not Ready', () => {
+    const config = makeConfig(3);
+    const snapshot = makeSnapshot([
+      { ip: '10.0.0.1', name: 'node1', layers: [{ layer: 'dl1', clusterHash: 'same' }] },
+      { ip: '10.0.0.2', name: 'node2', layers: [{ layer: 'dl1', clusterHash: 'same' }] },
+      { ip: '10.0.0.3', name: 'node3', layers: [{ layer: 'dl1', clusterHash: 'different' }] },
+    ]);
+    snapshot.nodes[1].layers[0].state = 'Observing';
+
+    const result = detectForkedClusterFromSnapshot(config, snapshot);
+    expect(result.restartScope).toBe('full-layer');
+    expect(result.fork).toBeUndefined();
+  });
+
+  it('recommends full-layer restart without a strict majority of configured nodes', () => {
+    const config = makeConfig(4);
+    const snapshot = makeSnapshot([
+      { ip: '10.0.0.1', name: 'node1', layers: [{ layer: 'dl1', clusterHash: 'same' }] },
+      { ip: '10.0.0.2', name: 'node2', layers: [{ layer: 'dl1', clusterHash: 'same' }] },
+      { ip: '10.0.0.3', name: 'node3', layers: [{ layer: 'dl1', clusterHash: 'different' }] },
+      { ip: '10.0.0.4', name: 'node4', layers: [{ layer: 'dl1', reachable: false }] },
+    ]);
+
     const result = detectForkedClusterFromSnapshot(config, snapshot);
     expect(result.restartScope).toBe('full-layer');
   });
@@ -290,6 +321,61 @@ describe('detectForkedClusterFromSnapshot()', () => {
     expect(result.detected).toBe(true);
     expect(result.restartScope).toBe('full-layer');
   });
+
+  it('does not compare hashes across sources', () => {
+    const snapshot = makeSnapshot([
+      { ip: '10.0.0.1', name: 'node1', layers: [{ layer: 'ml0', clusterHash: 'abc' }] },
+      { ip: '10.0.0.2', name: 'node2', layers: [{ layer: 'ml0', clusterHash: 'abc' }] },
+      { ip: '10.0.0.3', name: 'node3', layers: [{ layer: 'ml0' }] },
+    ]);
+    snapshot.source = 'mixed';
+    snapshot.nodes.forEach((n, i) => { n.source = i < 2 ? 'redis' : 'prometheus'; });
+
+    expect(checkLayerForkFromSnapshot(snapshot, 'ml0').forked).toBe(false);
+
+    // Sizes are still compared when the hashes cannot be
+    snapshot.nodes[2].layers[0].clusterSize = 2;
+    expect(checkLayerForkFromSnapshot(snapshot, 'ml0').minorityNodes).toEqual(['10.0.0.3']);
+  });
+
+  it('compares peer sets when every node of a mixed layer has them', () => {
+    const snapshot = makeSnapshot([
+      { ip: '10.0.0.1', name: 'node1', layers: [{ layer: 'ml0', clusterHash: 'abc' }] },
+      { ip: '10.0.0.2', name: 'node2', layers: [{ layer: 'ml0', clusterHash: 'abc' }] },
+      { ip: '10.0.0.3', name: 'node3', layers: [{ layer: 'ml0', clusterHash: 'f00' }] },
+    ]);
+    snapshot.source = 'mixed';
+    snapshot.nodes.forEach((n, i) => {
+      n.source = i < 2 ? 'redis' : 'direct';
+      n.layers[0].clusterPeers = ['peer-3', 'peer-1', 'peer-2'];
+    });
+    snapshot.nodes[2].layers[0].clusterPeers = ['peer-1', 'peer-2', 'peer-3'];
+
+    expect(checkLayerForkFromSnapshot(snapshot, 'ml0').forked).toBe(false);
+  });
+
+  it('detects equal-size forks in direct-poll snapshots', () => {
+    const views: ClusterMember[][] = [
+      [makeMember('peer-1'), makeMember('peer-2'), makeMember('peer-3')],
+      [makeMember('peer-2'), makeMember('peer-1'), makeMember('peer-3')],
+      [makeMember('peer-3'), makeMember('peer-4'), makeMember('peer-5')],
+    ];
+    const snapshot: HealthSnapshot = {
+      timestamp: new Date(),
+      stale: false,
+      source: 'direct',
+      nodes: views.map((cluster, i) => ({
+        ip: `10.0.0.${i + 1}`,
+        name: `node${i + 1}`,
+        layers: [toLayerHealth({ nodeIp: `10.0.0.${i + 1}`, layer: 'dl1', reachable: true, state: 'Ready', cluster, ordinal: 100 })],
+      })),
+    };
+
+    expect(snapshot.nodes[0].layers[0].clusterPeers).toEqual(['peer-1', 'peer-2', 'peer-3']);
+    const result = detectForkedClusterFromSnapshot(makeConfig(3), snapshot);
+    expect(result.detected).toBe(true);
+    expect(result.affectedNodes).toEqual(['10.0.0.3']);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -4,6 +4,11 @@
  * Detects cluster forks by comparing cluster hashes from each node's perspective.
  * If any node sees a different set of cluster members than the majority, the layer is forked.
  *
+ * Hashes are only comparable when they come from the same source — the
+ * services monitor and the watchdog need not hash peer sets the same way.
+ * A layer whose nodes came from different sources is compared by peer set,
+ * or by cluster size when some node has no peer list (e.g. Prometheus).
+ *
  * This is a PURE FUNCTION that operates on HealthSnapshot data.
  *
  * Pattern from: Constellation metagraph-monitoring-service-package ForkedCluster
@@ -11,7 +16,8 @@
 
 import { createHash } from 'crypto';
 import type { Config } from '../config.js';
-import type { Layer, DetectionResult, HealthSnapshot, ClusterMember } from '../types.js';
+import { nodePort } from '../config.js';
+import type { Layer, LayerHealth, DetectionResult, HealthSnapshot, ClusterMember, ForkPartition } from '../types.js';
 import { log } from '../logger.js';
 
 /** POV result from a single node */
@@ -71,25 +77,35 @@ export function findMajority(povs: NodePOV[]): {
 export function checkLayerForkFromSnapshot(
   snapshot: HealthSnapshot,
   layer: Layer,
-): { forked: boolean; minorityNodes: string[]; unreachable: string[] } {
+): { forked: boolean; majorityNodes: string[]; minorityNodes: string[]; unreachable: string[] } {
   const povs: NodePOV[] = [];
+  const reachable = snapshot.nodes.flatMap(node => {
+    const health = node.layers.find(l => l.layer === layer);
+    return health?.reachable ? [{ source: node.source ?? snapshot.source, health }] : [];
+  });
+
+  // Every node must be compared on the same basis — a hash never equals a size
+  let povKey: (h: LayerHealth) => string;
+  if (new Set(reachable.map(r => r.source)).size <= 1 && reachable.every(r => r.health.clusterHash)) {
+    povKey = h => h.clusterHash!;
+  } else if (reachable.every(r => r.health.clusterPeers)) {
+    povKey = h => hashClusterPOV(h.clusterPeers!.map(id => ({ id, state: '' })));
+  } else {
+    // Cluster size is a rough proxy (not ideal, but better than nothing)
+    povKey = h => `size-${h.clusterSize}`;
+  }
 
   for (const node of snapshot.nodes) {
     const layerHealth = node.layers.find(l => l.layer === layer);
-    
+
     if (!layerHealth || !layerHealth.reachable) {
       povs.push({ ip: node.ip, hash: '', reachable: false, error: 'unreachable' });
-    } else if (layerHealth.clusterHash) {
-      // Use pre-computed hash from services monitor
-      povs.push({ ip: node.ip, hash: layerHealth.clusterHash, reachable: true });
     } else {
-      // If no cluster hash, use cluster size as a rough proxy (not ideal, but better than nothing)
-      const pseudoHash = `size-${layerHealth.clusterSize}`;
-      povs.push({ ip: node.ip, hash: pseudoHash, reachable: true });
+      povs.push({ ip: node.ip, hash: povKey(layerHealth), reachable: true });
     }
   }
 
-  const { minorityNodes, unreachable } = findMajority(povs);
+  const { majorityNodes, minorityNodes, unreachable } = findMajority(povs);
 
   if (minorityNodes.length > 0) {
     log(`[ForkDetect] ${layer} FORKED — minority nodes: ${minorityNodes.join(', ')}`);
@@ -98,12 +114,35 @@ export function checkLayerForkFromSnapshot(
     }
   }
 
-  return { forked: minorityNodes.length > 0, minorityNodes, unreachable };
+  return { forked: minorityNodes.length > 0, majorityNodes, minorityNodes, unreachable };
+}
+
+/**
+ * The fork can be healed by rejoining only the minority when the majority
+ * partition is a strict majority of the configured nodes and all of it is Ready.
+ */
+export function healablePartition(
+  config: Config,
+  snapshot: HealthSnapshot,
+  layer: Layer,
+  majorityNodes: string[],
+  minorityNodes: string[],
+): ForkPartition | null {
+  if (majorityNodes.length <= config.nodes.length / 2) return null;
+
+  const allReady = majorityNodes.every(ip => {
+    const health = snapshot.nodes.find(n => n.ip === ip)?.layers.find(l => l.layer === layer);
+    return health?.state === 'Ready';
+  });
+  return allReady ? { layer, majorityNodes, minorityNodes } : null;
 }
 
 /**
  * Detect forked clusters from HealthSnapshot data.
  *
+ * A fork with a strict, Ready majority is healed by restarting only the
+ * minority nodes (individual-node scope); otherwise the whole layer restarts.
+ *
  * This is a PURE FUNCTION — no I/O, just data analysis.
  */
 export function detectForkedClusterFromSnapshot(
@@ -116,8 +155,22 @@ export function detectForkedClusterFromSnapshot(
     const result = checkLayerForkFromSnapshot(snapshot, layer);
 
     if (result.forked) {
-      // Always do full-layer restart for forks — partial restarts don't reliably
-      // resync session state. The whole layer needs to restart together.
+      const fork = healablePartition(config, snapshot, layer, result.majorityNodes, result.minorityNodes);
+      if (fork) {
+        log(`[ForkDetect] ${layer} majority (${fork.majorityNodes.join(', ')}) is Ready — healing the minority only`);
+        return {
+          detected: true,
+          condition: 'ForkedCluster',
+          details: `${layer.toUpperCase()} forked — minority nodes: ${result.minorityNodes.join(', ')} (majority: ${fork.majorityNodes.join(', ')})`,
+          restartScope: 'individual-node',
+          affectedNodes: result.minorityNodes,
+          affectedLayers: [layer],
+          fork,
+        };
+      }
+
+      // No clear majority to rejoin — the whole layer needs to restart together
+      log(`[ForkDetect] ${layer} has no Ready strict majority — full-layer restart`);
       return {
         detected: true,
         condition: 'ForkedCluster',
@@ -153,14 +206,12 @@ export async function checkLayerFork(
   layer: Layer,
   fetchFn: ClusterFetchFn = defaultClusterFetch,
 ): Promise<{ forked: boolean; minorityNodes: string[]; unreachable: string[] }> {
-  const port = config.ports[layer];
-
   // Get cluster POV from each node
   const povs: NodePOV[] = [];
 
   for (const node of config.nodes) {
     try {
-      const members = await fetchFn(node.ip, port);
+      const members = await fetchFn(node.ip, nodePort(config, node, layer));
       if (members.length === 0) {
         povs.push({ ip: node.ip, hash: 'empty', reachable: true });
       } else {
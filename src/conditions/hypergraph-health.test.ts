@@ -34,6 +34,8 @@ function makeConfig(opts?: { hypergraph?: Partial<HypergraphConfig> }): Config {
     once: false,
     managedLayers: ['gl0', 'ml0', 'dl1'],
     maxConsecutiveFailures: 3,
+    stateStore: 'none',
+    stateFilePath: '',
     hypergraph: opts?.hypergraph ? {
       enabled: true,
       l0Urls: ['http://hypergraph-l0:9000'],
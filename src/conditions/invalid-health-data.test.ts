@@ -0,0 +1,25 @@
+/**
+ * Invalid Health Data Condition Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { detectInvalidHealthDataFromSnapshot } from './invalid-health-data.js';
+
+describe('detectInvalidHealthDataFromSnapshot()', () => {
+  it('raises a detection-only result for rejected sources', () => {
+    const snapshot = { timestamp: new Date(), nodes: [], stale: false, source: 'direct' as const };
+    expect(detectInvalidHealthDataFromSnapshot(snapshot).detected).toBe(false);
+
+    const result = detectInvalidHealthDataFromSnapshot({
+      ...snapshot,
+      nodes: [{ ip: '10.0.0.1', name: 'node1', layers: [] }],
+      rejected: [{ source: 'redis', issues: ['unsupported schemaVersion 2 (supported: 1–1)'] }],
+    });
+    expect(result).toEqual({
+      detected: true,
+      condition: 'InvalidHealthData',
+      details: 'redis data failed validation: unsupported schemaVersion 2 (supported: 1–1) — using direct data instead',
+      restartScope: 'none',
+    });
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * Invalid Health Data Condition
+ *
+ * Detects health source data that failed validation — typically a Redis
+ * payload written by a services monitor with a newer or broken schema. The
+ * reader has already fallen back to the next source for this cycle, so the
+ * cluster is still watched; this makes the broken monitor visible.
+ *
+ * Detection-only: the monitor, not the cluster, needs fixing.
+ *
+ * This is a PURE FUNCTION that operates on HealthSnapshot data.
+ */
+
+import type { DetectionResult, HealthSnapshot } from '../types.js';
+
+/** Issues listed in the details before the rest are summarised */
+const MAX_LISTED_ISSUES = 5;
+
+export function detectInvalidHealthDataFromSnapshot(snapshot: HealthSnapshot): DetectionResult {
+  const rejected = snapshot.rejected ?? [];
+  if (rejected.length === 0) {
+    return { detected: false, condition: 'InvalidHealthData', details: '', restartScope: 'none' };
+  }
+
+  const details = rejected.map(({ source, issues }) => {
+    const listed = issues.slice(0, MAX_LISTED_ISSUES).join('; ');
+    const more = issues.length > MAX_LISTED_ISSUES ? ` (+${issues.length - MAX_LISTED_ISSUES} more)` : '';
+    return `${source} data failed validation: ${listed}${more}`;
+  });
+
+  return {
+    detected: true,
+    condition: 'InvalidHealthData',
+    details: `${details.join(', ')} — ${snapshot.nodes.length > 0 ? `using ${snapshot.source} data instead` : 'no other source had data'}`,
+    restartScope: 'none',
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * No Health Data Condition Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { detectNoHealthDataFromSnapshot } from './no-health-data.js';
+import type { HealthSnapshot } from '../types.js';
+
+describe('detectNoHealthDataFromSnapshot()', () => {
+  it('detects a stale, empty snapshot and lists rejected sources', () => {
+    const snapshot: HealthSnapshot = {
+      timestamp: new Date(),
+      nodes: [],
+      stale: true,
+      source: 'redis',
+      rejected: [{ source: 'redis', issues: ['unsupported schemaVersion 2 (supported: 1–1)'] }],
+    };
+
+    expect(detectNoHealthDataFromSnapshot(snapshot)).toEqual({
+      detected: true,
+      condition: 'NoHealthData',
+      details: 'No health source returned data — conditions not evaluated, redis data failed validation: unsupported schemaVersion 2 (supported: 1–1)',
+      restartScope: 'none',
+    });
+  });
+
+  it('does not fire when any node has data', () => {
+    const snapshot: HealthSnapshot = {
+      timestamp: new Date(),
+      nodes: [{ ip: '10.0.0.1', name: 'node1', layers: [] }],
+      stale: false,
+      source: 'prometheus',
+    };
+    expect(detectNoHealthDataFromSnapshot(snapshot).detected).toBe(false);
+  });
+});
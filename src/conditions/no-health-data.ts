@@ -0,0 +1,32 @@
+/**
+ * No Health Data Condition
+ *
+ * Raised when no health source returned usable data for a cycle. The other
+ * conditions are skipped for that cycle: every detector reads an empty
+ * snapshot as a healthy cluster, which would also lift a restart suspension.
+ *
+ * Detection-only — there is nothing to base a restart on.
+ *
+ * This is a PURE FUNCTION that operates on HealthSnapshot data.
+ */
+
+import type { DetectionResult, HealthSnapshot } from '../types.js';
+
+/** Whether the snapshot has no data the conditions can be evaluated against */
+export function lacksHealthData(snapshot: HealthSnapshot): boolean {
+  return snapshot.stale || snapshot.nodes.length === 0;
+}
+
+export function detectNoHealthDataFromSnapshot(snapshot: HealthSnapshot): DetectionResult {
+  if (!lacksHealthData(snapshot)) {
+    return { detected: false, condition: 'NoHealthData', details: '', restartScope: 'none' };
+  }
+
+  const rejected = (snapshot.rejected ?? []).map(r => `${r.source} data failed validation: ${r.issues.join('; ')}`);
+  return {
+    detected: true,
+    condition: 'NoHealthData',
+    details: ['No health source returned data — conditions not evaluated', ...rejected].join(', '),
+    restartScope: 'none',
+  };
+}
@@ -160,23 +160,21 @@ describe('detectOrdinalLagFromSnapshot', () => {
     expect(result.affectedNodes).toContain('10.0.0.1');
   });
 
-  it('escalates to full-layer if individual restart did not fix it', () => {
+  it('keeps requesting an individual restart while the majority is aligned', () => {
     const fastConfig = makeConfig({ ordinalLagDurationSecs: 0 } as any);
     const snapshot = makeSnapshot([
       makeNode('10.0.0.1', [{ layer: 'gl0', ordinal: 100 }]),
       makeNode('10.0.0.2', [{ layer: 'gl0', ordinal: 1000 }]),
       makeNode('10.0.0.3', [{ layer: 'gl0', ordinal: 1000 }]),
     ]);
-    // First cycle: track
     detectOrdinalLagFromSnapshot(fastConfig, snapshot);
-    // Second cycle: individual restart attempted
     const r1 = detectOrdinalLagFromSnapshot(fastConfig, snapshot);
     expect(r1.restartScope).toBe('individual-node');
 
-    // Third cycle: still lagging → escalate to full-layer
+    // Still lagging — escalating is the orchestrator's job (escalation ladder)
     const r2 = detectOrdinalLagFromSnapshot(fastConfig, snapshot);
     expect(r2.detected).toBe(true);
-    expect(r2.restartScope).toBe('full-layer');
+    expect(r2.restartScope).toBe('individual-node');
   });
 
   it('uses full-layer immediately when majority is lagging', () => {
@@ -194,7 +192,7 @@ describe('detectOrdinalLagFromSnapshot', () => {
     expect(result.restartScope).toBe('full-layer');
   });
 
-  it('works the same for DL1 — individual first, then escalate', () => {
+  it('works the same for DL1', () => {
     const fastConfig = makeConfig({ ordinalLagDurationSecs: 0 } as any);
     const snapshot = makeSnapshot([
       makeNode('10.0.0.1', [{ layer: 'dl1', ordinal: 100 }]),
@@ -202,10 +200,8 @@ describe('detectOrdinalLagFromSnapshot', () => {
       makeNode('10.0.0.3', [{ layer: 'dl1', ordinal: 1000 }]),
     ]);
     detectOrdinalLagFromSnapshot(fastConfig, snapshot);
-    const r1 = detectOrdinalLagFromSnapshot(fastConfig, snapshot);
-    expect(r1.restartScope).toBe('individual-node');
-    // Still lagging → escalate
-    const r2 = detectOrdinalLagFromSnapshot(fastConfig, snapshot);
-    expect(r2.restartScope).toBe('full-layer');
+    const result = detectOrdinalLagFromSnapshot(fastConfig, snapshot);
+    expect(result.restartScope).toBe('individual-node');
+    expect(result.affectedLayers).toEqual(['dl1']);
   });
 });
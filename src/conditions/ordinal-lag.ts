@@ -26,18 +26,25 @@ const DEFAULT_LAG_THRESHOLD = 50;
 const DEFAULT_LAG_DURATION_SECS = 300; // 5 minutes
 
 /** Track when we first noticed a node lagging */
-interface LagState {
+export interface LagState {
   firstSeen: number;
   ordinal: number;
   peerMax: number;
-  individualRestartAttempted: boolean;
 }
 
-const lagTracker = new Map<string, LagState>();
+/** Lag state keyed by `${nodeIp}:${layer}` */
+export type LagTracker = Map<string, LagState>;
+
+const globalLagTracker: LagTracker = new Map();
 
 /** Reset all tracking state (for testing) */
 export function resetLagTracker(): void {
-  lagTracker.clear();
+  globalLagTracker.clear();
+}
+
+/** Copy of the global tracker, for evaluating the condition without side effects */
+export function cloneLagTracker(): LagTracker {
+  return new Map([...globalLagTracker].map(([k, v]) => [k, { ...v }]));
 }
 
 function lagKey(nodeIp: string, layer: string): string {
@@ -50,6 +57,7 @@ function lagKey(nodeIp: string, layer: string): string {
 export function detectOrdinalLagFromSnapshot(
   config: Config,
   snapshot: HealthSnapshot,
+  lagTracker: LagTracker = globalLagTracker,
 ): DetectionResult {
   log('[OrdinalLag] Checking per-node ordinal sync across layers...');
 
@@ -83,7 +91,7 @@ export function detectOrdinalLagFromSnapshot(
         // Node is lagging — track it
         const existing = lagTracker.get(key);
         if (!existing) {
-          lagTracker.set(key, { firstSeen: now, ordinal: node.ordinal, peerMax: maxOrdinal, individualRestartAttempted: false });
+          lagTracker.set(key, { firstSeen: now, ordinal: node.ordinal, peerMax: maxOrdinal });
           log(`[OrdinalLag] ${layer.toUpperCase()} ${node.ip}: ordinal ${node.ordinal} is ${lag} behind peers (max: ${maxOrdinal}) — tracking`);
         } else {
           const lagSecs = (now - existing.firstSeen) / 1000;
@@ -115,20 +123,12 @@ export function detectOrdinalLagFromSnapshot(
   const affectedLayers = [...new Set(laggingNodes.map(n => n.layer))];
   const affectedNodes = [...new Set(laggingNodes.map(n => n.ip))];
 
-  // Determine restart scope with progressive escalation:
-  //
-  // For each affected layer, check:
-  //   1. How many nodes are lagging vs total reachable?
-  //   2. Has an individual restart already been attempted?
+  // Determine restart scope:
+  //   - Majority aligned on every affected layer → individual restart of the laggards
+  //   - No clear majority on a layer → the cluster itself is broken, full-layer
   //
-  // Strategy:
-  //   - Single node lagging + majority aligned → try individual restart first
-  //   - Individual restart already tried (still lagging) → escalate to full-layer
-  //   - Multiple nodes lagging (no clear majority) → full-layer immediately
-  //
-  // This applies to ALL layers including GL0/ML0. We proved individual
-  // restart works when the majority is healthy — but if it doesn't fix
-  // the problem, we escalate immediately on the next detection cycle.
+  // If an individual restart does not fix the lag, the orchestrator's
+  // escalation ladder moves the next attempt up to full-layer.
 
   let restartScope: 'individual-node' | 'full-layer' = 'individual-node';
 
@@ -140,46 +140,18 @@ export function detectOrdinalLagFromSnapshot(
       if (lh && lh.reachable && lh.state === 'Ready') totalReady++;
     }
 
-    const laggingOnLayer = laggingNodes.filter(n => n.layer === layer);
-    const laggingCount = laggingOnLayer.length;
-    const majorityHealthy = laggingCount < totalReady / 2;
-
-    if (!majorityHealthy) {
-      // No clear majority — cluster is broken, full-layer restart
+    const laggingCount = laggingNodes.filter(n => n.layer === layer).length;
+    if (laggingCount >= totalReady / 2) {
       log(`[OrdinalLag] ${layer.toUpperCase()}: ${laggingCount}/${totalReady} nodes lagging — no majority, full-layer restart`);
       restartScope = 'full-layer';
       break;
     }
 
-    // Check if we already tried individual restart for any of these nodes
-    const anyPreviouslyAttempted = laggingOnLayer.some(n => {
-      const state = lagTracker.get(lagKey(n.ip, n.layer));
-      return state?.individualRestartAttempted === true;
-    });
-
-    if (anyPreviouslyAttempted) {
-      // Individual restart didn't fix it — escalate
-      log(`[OrdinalLag] ${layer.toUpperCase()}: individual restart already attempted — escalating to full-layer`);
-      restartScope = 'full-layer';
-      break;
-    }
-
-    // Majority healthy + first attempt → try individual restart
-    log(`[OrdinalLag] ${layer.toUpperCase()}: ${laggingCount}/${totalReady} lagging, majority aligned — trying individual restart`);
+    log(`[OrdinalLag] ${layer.toUpperCase()}: ${laggingCount}/${totalReady} lagging, majority aligned — individual restart`);
   }
 
-  // Mark nodes as having had individual restart attempted (for escalation next cycle)
-  // Clear tracker for full-layer (fresh start after layer restart)
-  if (restartScope === 'individual-node') {
-    for (const n of laggingNodes) {
-      const key = lagKey(n.ip, n.layer);
-      const state = lagTracker.get(key);
-      if (state) {
-        state.individualRestartAttempted = true;
-      }
-    }
-  } else {
-    // Full-layer restart — clear all tracking for affected layers
+  // Full-layer restart — clear all tracking for affected layers (fresh start after layer restart)
+  if (restartScope === 'full-layer') {
     for (const n of laggingNodes) {
       lagTracker.delete(lagKey(n.ip, n.layer));
     }
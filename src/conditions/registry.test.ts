@@ -0,0 +1,162 @@
+/**
+ * Condition Registry Tests
+ */
+
+import { describe, it, expect, vi, afterAll } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  ConditionRegistry,
+  conditionRegistry,
+  conditionDebounce,
+  detectCondition,
+  loadConditionModules,
+  type Condition,
+  type ConditionContext,
+} from './registry.js';
+import { StallTracker } from './snapshots-stopped.js';
+import type { Config } from '../config.js';
+
+vi.mock('../logger.js', () => ({
+  log: vi.fn(),
+}));
+
+const dir = mkdtempSync(join(tmpdir(), 'watchdog-conditions-'));
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function makeConfig(overrides: Partial<Config> = {}): Config {
+  return { nodes: [{ name: 'node1', ip: '10.0.0.1' }], ...overrides } as Config;
+}
+
+function condition(name: string, overrides: Partial<Condition> = {}): Condition {
+  return {
+    name,
+    interval: 1,
+    defaultScope: 'full-layer',
+    detect: () => ({ detected: true, condition: name, details: 'broken', restartScope: 'full-layer' }),
+    ...overrides,
+  };
+}
+
+function makeContext(config: Config): ConditionContext {
+  return {
+    config,
+    snapshot: { timestamp: new Date(), nodes: [], stale: false, source: 'redis' },
+    cycle: 1,
+    stallTracker: new StallTracker(),
+    results: new Map(),
+  };
+}
+
+const names = (conditions: Condition[]): string[] => conditions.map(c => c.name);
+
+describe('ConditionRegistry', () => {
+  it('registers the built-in conditions in priority order', () => {
+    expect(conditionRegistry.names()).toEqual([
+      'ForkedCluster', 'SessionMismatch', 'SnapshotsStopped', 'UnhealthyNodes', 'OrdinalLag',
+      'InvalidHealthData', 'UnknownNodes', 'ServicesHealth', 'NodeResources', 'HypergraphHealth',
+    ]);
+  });
+
+  it('runs built-in periodic conditions on their cadence', () => {
+    const config = makeConfig({
+      hypergraph: { enabled: true, l0Urls: ['http://l0'], checkIntervalMultiplier: 5 },
+    });
+    expect(names(conditionRegistry.due(config, 1))).toContain('HypergraphHealth');
+    expect(names(conditionRegistry.due(config, 3))).toEqual([
+      'ForkedCluster', 'SessionMismatch', 'SnapshotsStopped', 'UnhealthyNodes', 'OrdinalLag', 'InvalidHealthData', 'UnknownNodes',
+      'NodeResources',
+    ]);
+    expect(names(conditionRegistry.due(config, 5))).toContain('HypergraphHealth');
+  });
+
+  it('applies per-condition settings from the config', () => {
+    const config = makeConfig({
+      conditions: { OrdinalLag: { enabled: false }, NodeResources: { interval: 2 } },
+    });
+    const due = names(conditionRegistry.due(config, 2));
+    expect(due).not.toContain('OrdinalLag');
+    expect(due).toContain('NodeResources');
+    expect(due).not.toContain('ServicesHealth'); // no services node configured
+  });
+
+  it('orders dependencies first and skips dependents whose dependency did not run', () => {
+    const registry = new ConditionRegistry([
+      condition('Derived', { dependsOn: ['Base'] }),
+      condition('Base', { interval: 2 }),
+    ]);
+    expect(names(registry.list())).toEqual(['Base', 'Derived']);
+    expect(names(registry.due(makeConfig(), 2))).toEqual(['Base', 'Derived']);
+    expect(registry.due(makeConfig(), 3)).toEqual([]);
+  });
+
+  it('rejects duplicates, unknown dependencies and cycles', () => {
+    expect(() => new ConditionRegistry([condition('A'), condition('A')])).toThrow('already registered');
+    expect(() => new ConditionRegistry([condition('A', { dependsOn: ['Nope'] })]).list()).toThrow('unknown condition Nope');
+    expect(() => new ConditionRegistry([
+      condition('A', { dependsOn: ['B'] }),
+      condition('B', { dependsOn: ['A'] }),
+    ]).list()).toThrow('dependency cycle: A → B → A');
+  });
+
+  it('merges configured debounce settings over the condition defaults', () => {
+    const forked = conditionRegistry.get('ForkedCluster')!;
+    expect(conditionDebounce(forked, makeConfig())).toEqual({});
+
+    const custom = condition('Flaky', { debounce: { confirmCycles: 2, windowCycles: 3 } });
+    expect(conditionDebounce(custom, makeConfig({ conditions: { Flaky: { windowCycles: 5, minDurationSecs: 60 } } })))
+      .toEqual({ confirmCycles: 2, windowCycles: 5, minDurationSecs: 60 });
+  });
+
+  it('reports settings for conditions that are not registered', () => {
+    const config = makeConfig({ conditions: { ForkedCluster: {}, Typo: {} } });
+    expect(conditionRegistry.unknownSettings(config)).toEqual(['Typo']);
+  });
+});
+
+describe('detectCondition()', () => {
+  it('applies the configured restart scope and records the result', async () => {
+    const ctx = makeContext(makeConfig({ conditions: { Broken: { restartScope: 'none' } } }));
+    const result = await detectCondition(condition('Broken'), ctx);
+    expect(result.restartScope).toBe('none');
+    expect(ctx.results.get('Broken')).toBe(result);
+  });
+
+  it('raises a detection below the condition\'s minimum rung', async () => {
+    const narrow = condition('Narrow', {
+      detect: () => ({ detected: true, condition: 'Narrow', details: 'broken', restartScope: 'individual-node' }),
+    });
+    const result = await detectCondition(narrow, makeContext(makeConfig()));
+    expect(result.restartScope).toBe('full-layer');
+  });
+});
+
+describe('loadConditionModules()', () => {
+  it('registers conditions exported by a module, relative to the config file', async () => {
+    writeFileSync(join(dir, 'custom.mjs'), `
+export default {
+  name: 'DiskFull',
+  interval: 10,
+  defaultScope: 'none',
+  detect: () => ({ detected: false, condition: 'DiskFull', details: '', restartScope: 'none' }),
+};
+`);
+    const registry = new ConditionRegistry();
+    await loadConditionModules(registry, makeConfig({
+      configFile: join(dir, 'watchdog.yaml'),
+      conditionModules: ['./custom.mjs'],
+    }));
+    expect(registry.get('DiskFull')?.interval).toBe(10);
+  });
+
+  it('rejects modules without a condition export', async () => {
+    writeFileSync(join(dir, 'empty.mjs'), 'export const something = 1;\n');
+    await expect(loadConditionModules(new ConditionRegistry(), makeConfig({
+      conditionModules: [join(dir, 'empty.mjs')],
+    }))).rejects.toThrow('must export a condition');
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * Condition Registry
+ *
+ * Every condition the loop evaluates implements `Condition` and is registered
+ * here. The registry decides which conditions run in a given cycle (enabled,
+ * due by interval, dependencies first); the loop just walks the result.
+ *
+ * Per-condition settings from the `conditions:` config section can switch a
+ * condition off, change its cadence or override its restart scope. Custom
+ * conditions are loaded from the modules listed in `conditionModules`.
+ */
+
+import { dirname, isAbsolute, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import type { Config, ConditionSettings } from '../config.js';
+import type { DetectionResult, HealthSnapshot, RestartScope } from '../types.js';
+import { SCOPE_RANK } from '../types.js';
+import type { StallTracker } from './snapshots-stopped.js';
+import type { LagTracker } from './ordinal-lag.js';
+import type { DebounceSettings } from './debounce.js';
+import { BUILTIN_CONDITIONS } from './builtin.js';
+import { log } from '../logger.js';
+
+/** Everything a condition may read while detecting */
+export interface ConditionContext {
+  config: Config;
+  snapshot: HealthSnapshot;
+  /** 1-based health-check cycle number */
+  cycle: number;
+  stallTracker: StallTracker;
+  /** Ordinal lag tracker — defaults to the module-global tracker */
+  lagTracker?: LagTracker;
+  /** Results of the conditions already evaluated this cycle, by name */
+  results: Map<string, DetectionResult>;
+}
+
+export interface Condition {
+  /** Unique name, also used as DetectionResult.condition */
+  name: string;
+  /** Run every N cycles (always on the first cycle) */
+  interval: number | ((config: Config) => number);
+  /** Conditions that must be evaluated first; if one does not run this cycle, neither does this one */
+  dependsOn?: string[];
+  /** Whether the condition applies to this config (default: always) */
+  enabled?: (config: Config) => boolean;
+  /**
+   * Scope the condition restarts at when it detects a problem — its minimum
+   * rung on the escalation ladder. Detections below it are raised to it.
+   */
+  defaultScope: RestartScope;
+  /** Confirmation required before a detection is acted on (default: immediate) */
+  debounce?: DebounceSettings;
+  detect(ctx: ConditionContext): DetectionResult | Promise<DetectionResult>;
+}
+
+function settingsFor(config: Config, name: string): ConditionSettings {
+  return config.conditions?.[name] ?? {};
+}
+
+/** Effective interval in cycles, after the config override */
+export function conditionInterval(condition: Condition, config: Config): number {
+  const configured = settingsFor(config, condition.name).interval;
+  if (configured !== undefined) return configured;
+  return typeof condition.interval === 'function' ? condition.interval(config) : condition.interval;
+}
+
+/** Effective debounce settings — config values override the condition's defaults */
+export function conditionDebounce(condition: Condition, config: Config): DebounceSettings {
+  const { confirmCycles, windowCycles, minDurationSecs } = settingsFor(config, condition.name);
+  const merged: DebounceSettings = { ...condition.debounce };
+  if (confirmCycles !== undefined) merged.confirmCycles = confirmCycles;
+  if (windowCycles !== undefined) merged.windowCycles = windowCycles;
+  if (minDurationSecs !== undefined) merged.minDurationSecs = minDurationSecs;
+  return merged;
+}
+
+/** Whether a condition is switched on (config can only switch it off) */
+export function isConditionEnabled(condition: Condition, config: Config): boolean {
+  if (settingsFor(config, condition.name).enabled === false) return false;
+  return condition.enabled?.(config) ?? true;
+}
+
+export class ConditionRegistry {
+  private readonly conditions = new Map<string, Condition>();
+
+  constructor(conditions: Condition[] = []) {
+    for (const c of conditions) this.register(c);
+  }
+
+  register(condition: Condition): void {
+    if (!condition.name || typeof condition.detect !== 'function') {
+      throw new Error('A condition needs a name and a detect() function');
+    }
+    if (this.conditions.has(condition.name)) {
+      throw new Error(`Condition ${condition.name} is already registered`);
+    }
+    this.conditions.set(condition.name, condition);
+  }
+
+  get(name: string): Condition | undefined {
+    return this.conditions.get(name);
+  }
+
+  names(): string[] {
+    return [...this.conditions.keys()];
+  }
+
+  /**
+   * All conditions in evaluation order: registration order, except that a
+   * condition always follows its dependencies.
+   */
+  list(): Condition[] {
+    const ordered: Condition[] = [];
+    const state = new Map<string, 'visiting' | 'done'>();
+
+    const visit = (c: Condition, path: string[]): void => {
+      if (state.get(c.name) === 'done') return;
+      if (state.get(c.name) === 'visiting') {
+        throw new Error(`Condition dependency cycle: ${[...path, c.name].join(' → ')}`);
+      }
+      state.set(c.name, 'visiting');
+      for (const dep of c.dependsOn ?? []) {
+        const target = this.conditions.get(dep);
+        if (!target) throw new Error(`Condition ${c.name} depends on unknown condition ${dep}`);
+        visit(target, [...path, c.name]);
+      }
+      state.set(c.name, 'done');
+      ordered.push(c);
+    };
+
+    for (const c of this.conditions.values()) visit(c, []);
+    return ordered;
+  }
+
+  /**
+   * Conditions to evaluate in this cycle, in order. A condition is skipped
+   * when it is disabled, not due, or one of its dependencies is skipped.
+   */
+  due(config: Config, cycle: number): Condition[] {
+    const running = new Set<string>();
+    const result: Condition[] = [];
+
+    for (const c of this.list()) {
+      if (!isConditionEnabled(c, config)) continue;
+
+      const interval = conditionInterval(c, config);
+      if (cycle !== 1 && cycle % interval !== 0) {
+        log(`[Monitor] Skipping ${c.name} (cycle ${cycle}, runs every ${interval})`);
+        continue;
+      }
+
+      const missing = (c.dependsOn ?? []).filter(d => !running.has(d));
+      if (missing.length > 0) {
+        log(`[Monitor] Skipping ${c.name} — depends on ${missing.join(', ')}, which did not run`);
+        continue;
+      }
+
+      running.add(c.name);
+      result.push(c);
+    }
+    return result;
+  }
+
+  /** Names in the `conditions:` config section that match no registered condition */
+  unknownSettings(config: Config): string[] {
+    return Object.keys(config.conditions ?? {}).filter(name => !this.conditions.has(name));
+  }
+}
+
+/**
+ * Run a condition, raise a detection to the condition's minimum rung and
+ * apply the config's restart-scope override. The result is recorded in `ctx.results` for dependents.
+ */
+export async function detectCondition(condition: Condition, ctx: ConditionContext): Promise<DetectionResult> {
+  let result = await condition.detect(ctx);
+  if (result.detected && result.restartScope !== 'none' && SCOPE_RANK[result.restartScope] < SCOPE_RANK[condition.defaultScope]) {
+    result = { ...result, restartScope: condition.defaultScope };
+  }
+  const scope = settingsFor(ctx.config, condition.name).restartScope;
+  if (result.detected && scope !== undefined && scope !== result.restartScope) {
+    log(`[Monitor] ${condition.name}: restart scope ${result.restartScope} → ${scope} (configured)`);
+    result = { ...result, restartScope: scope };
+  }
+  ctx.results.set(condition.name, result);
+  return result;
+}
+
+/**
+ * Re-run the named conditions (unknown names are skipped), e.g. to check
+ * that a restart cleared them. Debouncing and intervals do not apply.
+ */
+export async function redetectConditions(
+  registry: ConditionRegistry,
+  names: string[],
+  ctx: ConditionContext,
+): Promise<DetectionResult[]> {
+  const results: DetectionResult[] = [];
+  for (const c of registry.list().filter(c => names.includes(c.name))) {
+    results.push(await detectCondition(c, ctx));
+  }
+  return results;
+}
+
+function isCondition(value: unknown): value is Condition {
+  return typeof value === 'object' && value !== null
+    && typeof (value as Condition).name === 'string'
+    && typeof (value as Condition).detect === 'function';
+}
+
+/**
+ * Import custom condition modules and register what they export — a default
+ * export or a `conditions` export holding one condition or a list of them.
+ * Relative paths resolve against the config file's directory.
+ */
+export async function loadConditionModules(registry: ConditionRegistry, config: Config): Promise<void> {
+  const baseDir = config.configFile ? dirname(resolve(config.configFile)) : process.cwd();
+
+  for (const path of config.conditionModules ?? []) {
+    const fullPath = isAbsolute(path) ? path : resolve(baseDir, path);
+    const mod = await import(pathToFileURL(fullPath).href) as Record<string, unknown>;
+
+    const exported = mod.conditions ?? mod.default;
+    const conditions = Array.isArray(exported) ? exported : [exported];
+    if (conditions.length === 0 || !conditions.every(isCondition)) {
+      throw new Error(`Condition module ${path} must export a condition (or a list of them) as default or "conditions"`);
+    }
+
+    for (const c of conditions) {
+      registry.register(c);
+      log(`[Monitor] Registered custom condition ${c.name} from ${path}`);
+    }
+  }
+}
+
+/** Registry used by the daemon loop and the plan preview */
+export const conditionRegistry = new ConditionRegistry(BUILTIN_CONDITIONS);
@@ -0,0 +1,84 @@
+/**
+ * Session Mismatch Detection Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { checkLayerSessions, detectSessionMismatchFromSnapshot } from './session-mismatch.js';
+import type { Config } from '../config.js';
+import type { HealthSnapshot, LayerHealth } from '../types.js';
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+function makeConfig(nodeCount: number = 3): Config {
+  return {
+    nodes: Array.from({ length: nodeCount }, (_, i) => ({
+      ip: `10.0.0.${i + 1}`,
+      name: `node${i + 1}`,
+    })),
+    ports: { gl0: 9000, ml0: 9200, cl1: 9300, dl1: 9400 },
+    cliPorts: { gl0: 9001, ml0: 9201, cl1: 9301, dl1: 9401 },
+    p2pPorts: { gl0: 9010, ml0: 9210, cl1: 9310, dl1: 9410 },
+    managedLayers: ['gl0', 'ml0', 'dl1'],
+  } as Config;
+}
+
+/** DL1 snapshot where every node has a 3-node peer set, with the given sessions */
+function makeSnapshot(sessions: Array<string | undefined>, overrides: Partial<LayerHealth>[] = []): HealthSnapshot {
+  return {
+    timestamp: new Date(),
+    stale: false,
+    source: 'redis',
+    nodes: sessions.map((clusterSession, i) => ({
+      ip: `10.0.0.${i + 1}`,
+      name: `node${i + 1}`,
+      layers: [{
+        layer: 'dl1',
+        state: 'Ready',
+        ordinal: 100,
+        reachable: true,
+        clusterSize: 3,
+        clusterSession,
+        ...overrides[i],
+      }],
+    })),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('checkLayerSessions()', () => {
+  it('ignores nodes that are unreachable or report no session', () => {
+    const result = checkLayerSessions(makeSnapshot(['a', undefined, 'b'], [{}, {}, { reachable: false }]), 'dl1');
+    expect(result).toEqual({ majoritySession: 'a', majorityNodes: ['10.0.0.1'], minorityNodes: [] });
+  });
+});
+
+describe('detectSessionMismatchFromSnapshot()', () => {
+  it('reports a node in another session even when peer-set sizes match', () => {
+    const result = detectSessionMismatchFromSnapshot(makeConfig(), makeSnapshot(['a', 'a', 'b']));
+    expect(result).toEqual({
+      detected: true,
+      condition: 'SessionMismatch',
+      details: 'DL1 session mismatch — 10.0.0.3 not in majority session a (majority: 10.0.0.1, 10.0.0.2)',
+      restartScope: 'individual-node',
+      affectedNodes: ['10.0.0.3'],
+      affectedLayers: ['dl1'],
+      fork: { layer: 'dl1', majorityNodes: ['10.0.0.1', '10.0.0.2'], minorityNodes: ['10.0.0.3'] },
+    });
+  });
+
+  it('restarts the full layer when the majority is not Ready', () => {
+    const result = detectSessionMismatchFromSnapshot(makeConfig(), makeSnapshot(['a', 'a', 'b'], [{ state: 'Observing' }]));
+    expect(result.restartScope).toBe('full-layer');
+    expect(result.fork).toBeUndefined();
+  });
+
+  it('does not detect when all sessions agree or none are reported', () => {
+    expect(detectSessionMismatchFromSnapshot(makeConfig(), makeSnapshot(['a', 'a', 'a'])).detected).toBe(false);
+    expect(detectSessionMismatchFromSnapshot(makeConfig(), makeSnapshot([undefined, undefined, undefined])).detected).toBe(false);
+  });
+});
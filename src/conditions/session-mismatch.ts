@@ -0,0 +1,86 @@
+/**
+ * Session Mismatch Condition
+ *
+ * Detects nodes that joined a different cluster session than the majority.
+ * Two partitions can have peer sets of the same size — which the fork
+ * detector's size fallback cannot tell apart when no cluster hash is
+ * reported — but nodes in different sessions never reach consensus.
+ *
+ * This is a PURE FUNCTION that operates on HealthSnapshot data.
+ */
+
+import type { Config } from '../config.js';
+import type { Layer, DetectionResult, HealthSnapshot } from '../types.js';
+import { ALL_LAYERS } from '../types.js';
+import { findMajority, healablePartition, type NodePOV } from './forked-cluster.js';
+import { log } from '../logger.js';
+
+/**
+ * Split a layer's nodes by the cluster session they report.
+ * Nodes that are unreachable or report no session do not vote.
+ */
+export function checkLayerSessions(
+  snapshot: HealthSnapshot,
+  layer: Layer,
+): { majoritySession: string; majorityNodes: string[]; minorityNodes: string[] } {
+  const povs: NodePOV[] = snapshot.nodes.map(node => {
+    const health = node.layers.find(l => l.layer === layer);
+    const session = health?.reachable ? health.clusterSession : undefined;
+    return { ip: node.ip, hash: session ?? '', reachable: session !== undefined };
+  });
+
+  const { majorityHash, majorityNodes, minorityNodes } = findMajority(povs);
+
+  if (minorityNodes.length > 0) {
+    log(`[SessionMismatch] ${layer} majority session ${majorityHash} (${majorityNodes.join(', ')}), minority: ${minorityNodes.join(', ')}`);
+    for (const p of povs.filter(p => p.reachable)) {
+      log(`[SessionMismatch]   ${p.ip}: session=${p.hash}`);
+    }
+  }
+
+  return { majoritySession: majorityHash, majorityNodes, minorityNodes };
+}
+
+/**
+ * Detect nodes whose cluster session differs from the majority.
+ *
+ * Like a fork, a strict, Ready majority means only the minority needs to
+ * rejoin (individual-node scope); otherwise the whole layer restarts.
+ *
+ * This is a PURE FUNCTION — no I/O, just data analysis.
+ */
+export function detectSessionMismatchFromSnapshot(
+  config: Config,
+  snapshot: HealthSnapshot,
+): DetectionResult {
+  for (const layer of ALL_LAYERS) {
+    const result = checkLayerSessions(snapshot, layer);
+    if (result.minorityNodes.length === 0) continue;
+
+    const details = `${layer.toUpperCase()} session mismatch — ${result.minorityNodes.join(', ')} not in majority session ${result.majoritySession}`;
+    const fork = healablePartition(config, snapshot, layer, result.majorityNodes, result.minorityNodes);
+    if (fork) {
+      return {
+        detected: true,
+        condition: 'SessionMismatch',
+        details: `${details} (majority: ${fork.majorityNodes.join(', ')})`,
+        restartScope: 'individual-node',
+        affectedNodes: result.minorityNodes,
+        affectedLayers: [layer],
+        fork,
+      };
+    }
+
+    log(`[SessionMismatch] ${layer} has no Ready strict majority — full-layer restart`);
+    return {
+      detected: true,
+      condition: 'SessionMismatch',
+      details,
+      restartScope: 'full-layer',
+      affectedNodes: result.minorityNodes,
+      affectedLayers: [layer],
+    };
+  }
+
+  return { detected: false, condition: 'SessionMismatch', details: '', restartScope: 'none' };
+}
@@ -8,6 +8,7 @@
  */
 
 import type { Config } from '../config.js';
+import { nodePort } from '../config.js';
 import type { DetectionResult, HealthSnapshot } from '../types.js';
 import { log } from '../logger.js';
 
@@ -60,6 +61,13 @@ export class StallTracker {
   reset(): void {
     this.state.clear();
   }
+
+  /** Independent copy (for evaluating the condition without side effects). */
+  clone(): StallTracker {
+    const copy = new StallTracker();
+    for (const [k, v] of this.state) copy.state.set(k, { ...v });
+    return copy;
+  }
 }
 
 // Global tracker instance (survives across check cycles)
@@ -156,7 +164,7 @@ export async function detectSnapshotsStopped(
   // Try all nodes until we get an ordinal
   for (const node of config.nodes) {
     try {
-      const ordinal = await fetchFn(node.ip, config.ports.ml0);
+      const ordinal = await fetchFn(node.ip, nodePort(config, node, 'ml0'));
       if (ordinal >= 0) {
         currentOrdinal = ordinal;
         reachableNode = node.ip;
@@ -35,6 +35,8 @@ function makeConfig(nodeCount: number = 3): Config {
     once: false,
     managedLayers: ['gl0', 'ml0', 'dl1'],
     maxConsecutiveFailures: 3,
+    stateStore: 'none',
+    stateFilePath: '',
   };
 }
 
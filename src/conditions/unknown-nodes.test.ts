@@ -0,0 +1,21 @@
+/**
+ * Unknown Nodes Condition Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { detectUnknownNodesFromSnapshot } from './unknown-nodes.js';
+
+describe('detectUnknownNodesFromSnapshot()', () => {
+  it('raises a detection-only result for nodes that are not configured', () => {
+    const snapshot = { timestamp: new Date(), nodes: [], stale: false, source: 'redis' as const };
+    expect(detectUnknownNodesFromSnapshot(snapshot).detected).toBe(false);
+
+    expect(detectUnknownNodesFromSnapshot({ ...snapshot, unknownNodes: ['10.0.0.9'] })).toEqual({
+      detected: true,
+      condition: 'UnknownNodes',
+      details: 'Health data reports node(s) that are not configured (ignored): 10.0.0.9 — check the node list',
+      restartScope: 'none',
+      affectedNodes: ['10.0.0.9'],
+    });
+  });
+});
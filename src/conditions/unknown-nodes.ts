@@ -0,0 +1,28 @@
+/**
+ * Unknown Nodes Condition
+ *
+ * Detects health data for IPs that are not in `config.nodes`. The reader
+ * drops those nodes from the snapshot, so a node list that is out of date
+ * (a replaced host, a typo) would otherwise only show up in the log.
+ *
+ * Detection-only: the configuration, not the cluster, needs fixing.
+ *
+ * This is a PURE FUNCTION that operates on HealthSnapshot data.
+ */
+
+import type { DetectionResult, HealthSnapshot } from '../types.js';
+
+export function detectUnknownNodesFromSnapshot(snapshot: HealthSnapshot): DetectionResult {
+  const unknown = snapshot.unknownNodes ?? [];
+  if (unknown.length === 0) {
+    return { detected: false, condition: 'UnknownNodes', details: '', restartScope: 'none' };
+  }
+
+  return {
+    detected: true,
+    condition: 'UnknownNodes',
+    details: `Health data reports node(s) that are not configured (ignored): ${unknown.join(', ')} — check the node list`,
+    restartScope: 'none',
+    affectedNodes: unknown,
+  };
+}
@@ -0,0 +1,126 @@
+/**
+ * Config Hot Reload Tests
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadConfig } from './config.js';
+import { reloadConfig, diffConfig } from './config-reload.js';
+
+vi.mock('./logger.js', () => ({
+  log: vi.fn(),
+}));
+
+let dir: string;
+
+beforeAll(() => {
+  dir = mkdtempSync(join(tmpdir(), 'watchdog-reload-'));
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const baseYaml = `
+nodes:
+  - { name: node1, ip: 1.1.1.1 }
+  - { name: node2, ip: 2.2.2.2 }
+thresholds:
+  snapshotStallMinutes: 4
+  maxRestartsPerHour: 6
+redisUrl: redis://localhost:6379
+`;
+
+function setup(name: string): { path: string; argv: string[] } {
+  const path = join(dir, name);
+  writeFileSync(path, baseYaml);
+  return { path, argv: ['--daemon', '--config', path] };
+}
+
+describe('reloadConfig()', () => {
+  it('applies changed thresholds to the live config object', () => {
+    const { path, argv } = setup('thresholds.yaml');
+    const live = loadConfig(argv, {});
+    const nodesBefore = live.nodes;
+
+    writeFileSync(path, baseYaml
+      .replace('snapshotStallMinutes: 4', 'snapshotStallMinutes: 8')
+      .replace('maxRestartsPerHour: 6', 'maxRestartsPerHour: 2'));
+    const result = reloadConfig(live, argv, {});
+
+    expect(result.success).toBe(true);
+    expect(result.applied).toEqual([
+      { path: 'snapshotStallMinutes', from: 4, to: 8 },
+      { path: 'maxRestartsPerHour', from: 6, to: 2 },
+    ]);
+    expect(live.snapshotStallMinutes).toBe(8);
+    expect(live.maxRestartsPerHour).toBe(2);
+    expect(live.nodes).toBe(nodesBefore);
+    expect(live.daemon).toBe(true);
+  });
+
+  it('refuses an invalid config and leaves the live config untouched', () => {
+    const { path, argv } = setup('invalid.yaml');
+    const live = loadConfig(argv, {});
+
+    writeFileSync(path, baseYaml.replace('snapshotStallMinutes: 4', 'snapshotStallMinutes: soon'));
+    const result = reloadConfig(live, argv, {});
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('reload refused');
+    expect(result.issues.map(i => i.message)).toContain('thresholds.snapshotStallMinutes must be a non-negative integer (got "soon")');
+    expect(live.snapshotStallMinutes).toBe(4);
+  });
+
+  it('reports connection settings as requiring a restart without applying them', () => {
+    const { path, argv } = setup('redis.yaml');
+    const live = loadConfig(argv, {});
+
+    writeFileSync(path, baseYaml.replace('redis://localhost:6379', 'redis://other:6379'));
+    const result = reloadConfig(live, argv, {});
+
+    expect(result.success).toBe(true);
+    expect(result.applied).toEqual([]);
+    expect(result.requiresRestart).toEqual([{ path: 'redisUrl', from: 'redis://localhost:6379', to: 'redis://other:6379' }]);
+    expect(live.redisUrl).toBe('redis://localhost:6379');
+  });
+
+  it('reports the health source chain as requiring a restart', () => {
+    const { argv } = setup('sources.yaml');
+    const live = loadConfig(argv, {});
+
+    const result = reloadConfig(live, argv, { HEALTH_SOURCES: 'prometheus,direct', PROMETHEUS_URL: 'http://prometheus:9090' });
+
+    expect(result.applied).toEqual([]);
+    expect(result.requiresRestart.map(c => c.path)).toEqual(expect.arrayContaining(['healthSources', 'prometheus.url']));
+    expect(live.healthSources).toEqual(['redis', 'direct']);
+    expect(live.prometheus).toBeUndefined();
+  });
+
+  it('reports cross-check changes as requiring a restart', () => {
+    const { argv } = setup('cross-check.yaml');
+    const live = loadConfig(argv, {});
+
+    const result = reloadConfig(live, argv, { CROSS_CHECK_ENABLED: 'true' });
+
+    expect(result.requiresRestart).toEqual([{ path: 'crossCheck.enabled', from: false, to: true }]);
+    expect(live.crossCheck?.enabled).toBe(false);
+  });
+});
+
+describe('diffConfig()', () => {
+  it('diffs nested nodes per field and redacts secrets', () => {
+    const before = loadConfig([], { TELEGRAM_ENABLED: 'true', TELEGRAM_BOT_TOKEN: 'old', TELEGRAM_CHAT_ID: '1' });
+    const after = loadConfig([], {
+      TELEGRAM_ENABLED: 'true', TELEGRAM_BOT_TOKEN: 'new', TELEGRAM_CHAT_ID: '2',
+      NODE_NAMES: 'node1,renamed,node3',
+    });
+    expect(diffConfig(before, after)).toEqual([
+      { path: 'nodes[1].name', from: 'node2', to: 'renamed' },
+      { path: 'telegram.botToken', from: '***', to: '***' },
+      { path: 'telegram.chatId', from: '1', to: '2' },
+    ]);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Configuration Hot Reload
+ *
+ * Re-reads the config file and environment (SIGHUP or POST /api/config/reload)
+ * and applies the new values to the running watchdog. The live Config object
+ * is updated in place, so the loop, API and services that hold it pick up the
+ * new thresholds on their next read — restart history, stall and lag trackers
+ * are untouched. Callers apply a reload between cycles (CycleScheduler
+ * .runBetweenCycles) so a cycle never sees a mix of old and new values;
+ * manual restart jobs run on a snapshot taken when they start.
+ *
+ * Settings bound to connections or listeners opened at startup are reported
+ * but not applied; they need a process restart.
+ */
+
+import type { Config } from './config.js';
+import { checkConfig } from './config.js';
+import { redactConfig, type ConfigIssue } from './config-validation.js';
+import { log } from './logger.js';
+
+export interface ConfigChange {
+  path: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface ConfigReloadResult {
+  success: boolean;
+  /** Changes applied to the running watchdog */
+  applied: ConfigChange[];
+  /** Changes that only take effect after a process restart (not applied) */
+  requiresRestart: ConfigChange[];
+  issues: ConfigIssue[];
+  error?: string;
+}
+
+/** Top-level settings fixed for the life of the process */
+const RESTART_REQUIRED = new Set<keyof Config>([
+  'redisUrl',
+  'postgresUrl',
+  'stateStore',
+  'stateFilePath',
+  'telegram',
+  'api',
+  'dryRun',
+  'conditionModules',
+  'healthUpdates',
+  'healthSources',
+  'prometheus',
+  'crossCheck',
+]);
+
+/** Derived from the command line, never reloaded */
+const RUNTIME_ONLY = new Set<keyof Config>(['daemon', 'once', 'configFile']);
+
+function flatten(value: unknown, path: string, out: Map<string, unknown>): void {
+  const isObjectList = Array.isArray(value) && value.some(v => typeof v === 'object' && v !== null);
+  if (typeof value === 'object' && value !== null && (!Array.isArray(value) || isObjectList)) {
+    const entries = Array.isArray(value) ? value.map((v, i) => [`[${i}]`, v] as const) : Object.entries(value);
+    for (const [key, child] of entries) {
+      flatten(child, key.startsWith('[') ? `${path}${key}` : path ? `${path}.${key}` : key, out);
+    }
+    return;
+  }
+  out.set(path, value);
+}
+
+function flat(value: unknown): Map<string, unknown> {
+  const out = new Map<string, unknown>();
+  flatten(value, '', out);
+  return out;
+}
+
+/**
+ * Leaf-level differences between two configs. Secret values are compared
+ * but reported redacted.
+ */
+export function diffConfig(before: Config, after: Config): ConfigChange[] {
+  const [a, b] = [flat(before), flat(after)];
+  const [shownA, shownB] = [flat(redactConfig(before)), flat(redactConfig(after))];
+
+  const changes: ConfigChange[] = [];
+  for (const path of new Set([...a.keys(), ...b.keys()])) {
+    if (JSON.stringify(a.get(path)) !== JSON.stringify(b.get(path))) {
+      changes.push({ path, from: shownA.get(path), to: shownB.get(path) });
+    }
+  }
+  return changes;
+}
+
+function topLevelKey(path: string): keyof Config {
+  return path.split(/[.[]/)[0] as keyof Config;
+}
+
+/**
+ * Reload the configuration into `live`. Refuses (and changes nothing) if the
+ * new configuration has validation errors.
+ */
+export function reloadConfig(
+  live: Config,
+  argv: string[] = process.argv,
+  env: Record<string, string | undefined> = process.env,
+): ConfigReloadResult {
+  const { config: next, issues } = checkConfig(argv, env);
+  const errors = issues.filter(i => i.severity === 'error');
+
+  if (!next || errors.length > 0) {
+    log(`[Config] Reload refused — ${errors.length} validation error(s):`);
+    for (const e of errors) log(`[Config]   ${e.message}`);
+    return { success: false, applied: [], requiresRestart: [], issues, error: 'Configuration is invalid — reload refused' };
+  }
+
+  const changes = diffConfig(live, next).filter(c => !RUNTIME_ONLY.has(topLevelKey(c.path)));
+  const applied = changes.filter(c => !RESTART_REQUIRED.has(topLevelKey(c.path)));
+  const requiresRestart = changes.filter(c => RESTART_REQUIRED.has(topLevelKey(c.path)));
+
+  const updates: Partial<Config> = {};
+  for (const key of new Set(applied.map(c => topLevelKey(c.path)))) {
+    Object.assign(updates, { [key]: next[key] });
+  }
+  Object.assign(live, updates);
+
+  for (const w of issues.filter(i => i.severity === 'warning')) log(`[Config] Warning: ${w.message}`);
+  if (changes.length === 0) {
+    log('[Config] Reloaded — no changes');
+  }
+  for (const c of applied) {
+    log(`[Config] ${c.path}: ${JSON.stringify(c.from)} → ${JSON.stringify(c.to)}`);
+  }
+  for (const c of requiresRestart) {
+    log(`[Config] ${c.path} changed but requires a restart to take effect`);
+  }
+
+  return { success: true, applied, requiresRestart, issues };
+}
@@ -0,0 +1,446 @@
+/**
+ * Configuration Validation
+ *
+ * A declarative schema for the effective (merged) Config. Every field's type,
+ * range and secrecy is described once; the validator walks the config against
+ * it, then runs the cross-field checks no single field can express (port
+ * collisions, duplicate nodes, SSH key presence).
+ *
+ * The same schema drives redaction for `--validate-config` output.
+ */
+
+import { existsSync } from 'fs';
+import { posix } from 'path';
+import type { Config } from './config.js';
+import { nodePort } from './config.js';
+import { ALL_LAYERS, HEALTH_SOURCE_NAMES } from './types.js';
+
+export type IssueSeverity = 'error' | 'warning';
+
+export interface ConfigIssue {
+  severity: IssueSeverity;
+  message: string;
+}
+
+type FieldSchema =
+  | { type: 'string'; optional?: boolean; secret?: boolean }
+  | { type: 'integer'; optional?: boolean; min?: number; max?: number }
+  | { type: 'boolean'; optional?: boolean }
+  | { type: 'url'; optional?: boolean; protocols: string[] }
+  | { type: 'enum'; optional?: boolean; values: readonly string[] }
+  | { type: 'list'; optional?: boolean; items: FieldSchema; minItems?: number }
+  | { type: 'object'; optional?: boolean; fields: Record<string, FieldSchema> }
+  | { type: 'map'; optional?: boolean; values: FieldSchema };
+
+const port: FieldSchema = { type: 'integer', min: 1, max: 65535 };
+const layerPorts: FieldSchema = {
+  type: 'object',
+  fields: Object.fromEntries(ALL_LAYERS.map(l => [l, port])),
+};
+const optionalPort: FieldSchema = { ...port, optional: true };
+const node = (optional = false): FieldSchema => ({
+  type: 'object',
+  optional,
+  fields: {
+    name: { type: 'string' },
+    ip: { type: 'string' },
+    privateIp: { type: 'string', optional: true },
+    containers: {
+      type: 'object',
+      optional: true,
+      fields: Object.fromEntries(ALL_LAYERS.map(l => [l, { type: 'string', optional: true }])),
+    },
+    ports: {
+      type: 'object',
+      optional: true,
+      fields: Object.fromEntries(ALL_LAYERS.map(l => [l, {
+        type: 'object',
+        optional: true,
+        fields: { public: optionalPort, cli: optionalPort, p2p: optionalPort },
+      }])),
+    },
+    sshPort: optionalPort,
+    sshUser: { type: 'string', optional: true },
+  },
+});
+
+/** Schema of the effective Config */
+export const CONFIG_SCHEMA: FieldSchema = {
+  type: 'object',
+  fields: {
+    nodes: { type: 'list', items: node(), minItems: 1 },
+    servicesNode: node(true),
+    sshKeyPath: { type: 'string' },
+    sshUser: { type: 'string' },
+    ports: layerPorts,
+    cliPorts: layerPorts,
+    p2pPorts: layerPorts,
+    containerNaming: { type: 'enum', optional: true, values: ['layer', 'indexed'] },
+    snapshotStallMinutes: { type: 'integer', min: 1 },
+    healthCheckIntervalSeconds: { type: 'integer', min: 1 },
+    restartCooldownMinutes: { type: 'integer', min: 0 },
+    maxRestartsPerHour: { type: 'integer', min: 1 },
+    redisUrl: { type: 'url', protocols: ['redis:', 'rediss:'] },
+    postgresUrl: { type: 'url', protocols: ['postgres:', 'postgresql:'] },
+    healthDataStaleSeconds: { type: 'integer', min: 1 },
+    managedLayers: { type: 'list', items: { type: 'enum', values: ALL_LAYERS } },
+    maxConsecutiveFailures: { type: 'integer', min: 1 },
+    stateStore: { type: 'enum', values: ['none', 'file', 'postgres'] },
+    stateFilePath: { type: 'string' },
+    configFile: { type: 'string', optional: true },
+    daemon: { type: 'boolean' },
+    once: { type: 'boolean' },
+    dryRun: { type: 'boolean', optional: true },
+    hypergraph: {
+      type: 'object',
+      optional: true,
+      fields: {
+        enabled: { type: 'boolean' },
+        l0Urls: { type: 'list', items: { type: 'url', protocols: ['http:', 'https:'] }, minItems: 1 },
+        l1Urls: { type: 'list', optional: true, items: { type: 'url', protocols: ['http:', 'https:'] } },
+        metagraphId: { type: 'string', optional: true },
+        checkIntervalMultiplier: { type: 'integer', min: 1 },
+      },
+    },
+    telegram: {
+      type: 'object',
+      optional: true,
+      fields: {
+        enabled: { type: 'boolean' },
+        botToken: { type: 'string', secret: true },
+        chatId: { type: 'string' },
+      },
+    },
+    api: {
+      type: 'object',
+      optional: true,
+      fields: {
+        enabled: { type: 'boolean' },
+        port,
+        token: { type: 'string', optional: true, secret: true },
+      },
+    },
+    directPollConcurrency: { type: 'integer', optional: true, min: 1 },
+    directPollDeadlineSeconds: { type: 'integer', optional: true, min: 1 },
+    healthSources: { type: 'list', optional: true, items: { type: 'enum', values: HEALTH_SOURCE_NAMES }, minItems: 1 },
+    healthUpdates: {
+      type: 'object',
+      optional: true,
+      fields: {
+        mode: { type: 'enum', values: ['off', 'pubsub', 'keyspace'] },
+        channel: { type: 'string' },
+        minIntervalSeconds: { type: 'integer', min: 1 },
+      },
+    },
+    prometheus: {
+      type: 'object',
+      optional: true,
+      fields: {
+        url: { type: 'url', protocols: ['http:', 'https:'] },
+        metrics: {
+          type: 'object',
+          fields: { up: { type: 'string' }, ordinal: { type: 'string' }, state: { type: 'string' }, clusterSize: { type: 'string' } },
+        },
+      },
+    },
+    verifySettleSeconds: { type: 'integer', optional: true, min: 0 },
+    verifyOrdinalSeconds: { type: 'integer', optional: true, min: 1 },
+    escalationWindowMinutes: { type: 'integer', optional: true, min: 1 },
+    forkHealing: {
+      type: 'object',
+      optional: true,
+      fields: {
+        wipeData: { type: 'boolean' },
+        dataDir: { type: 'string' },
+      },
+    },
+    crossCheck: {
+      type: 'object',
+      optional: true,
+      fields: {
+        enabled: { type: 'boolean' },
+        ordinalTolerance: { type: 'integer', min: 0 },
+      },
+    },
+    conditions: {
+      type: 'map',
+      optional: true,
+      values: {
+        type: 'object',
+        fields: {
+          enabled: { type: 'boolean', optional: true },
+          interval: { type: 'integer', optional: true, min: 1 },
+          restartScope: { type: 'enum', optional: true, values: ['none', 'individual-node', 'full-layer', 'full-metagraph'] },
+          confirmCycles: { type: 'integer', optional: true, min: 1 },
+          windowCycles: { type: 'integer', optional: true, min: 1 },
+          minDurationSecs: { type: 'integer', optional: true, min: 0 },
+        },
+      },
+    },
+    conditionModules: { type: 'list', optional: true, items: { type: 'string' } },
+    ordinalLagThreshold: { type: 'integer', optional: true, min: 1 },
+    ordinalLagDurationSecs: { type: 'integer', optional: true, min: 0 },
+  },
+};
+
+const REDACTED = '***';
+
+function isPlainObject(val: unknown): val is Record<string, unknown> {
+  return typeof val === 'object' && val !== null && !Array.isArray(val);
+}
+
+function validateField(value: unknown, schema: FieldSchema, path: string, issues: ConfigIssue[]): void {
+  const error = (message: string): void => { issues.push({ severity: 'error', message: `${path} ${message}` }); };
+
+  if (value === undefined || value === null) {
+    if (!schema.optional) error('is required');
+    return;
+  }
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string' || value.trim() === '') error('must be a non-empty string');
+      break;
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isInteger(value)) {
+        error(`must be an integer (got ${JSON.stringify(value)})`);
+      } else if (schema.min !== undefined && value < schema.min) {
+        error(schema.max !== undefined
+          ? `must be between ${schema.min} and ${schema.max} (got ${value})`
+          : `must be at least ${schema.min} (got ${value})`);
+      } else if (schema.max !== undefined && value > schema.max) {
+        error(schema.min !== undefined
+          ? `must be between ${schema.min} and ${schema.max} (got ${value})`
+          : `must be at most ${schema.max} (got ${value})`);
+      }
+      break;
+    case 'boolean':
+      if (typeof value !== 'boolean') error('must be true or false');
+      break;
+    case 'url': {
+      let url: URL | null = null;
+      try {
+        url = new URL(String(value));
+      } catch {
+        error('must be a valid URL');
+      }
+      if (url && !schema.protocols.includes(url.protocol)) {
+        error(`must use ${schema.protocols.join(' or ')} (got ${url.protocol})`);
+      }
+      break;
+    }
+    case 'enum':
+      if (!schema.values.includes(value as string)) {
+        error(`must be one of ${schema.values.join(', ')} (got ${JSON.stringify(value)})`);
+      }
+      break;
+    case 'list':
+      if (!Array.isArray(value)) {
+        error('must be a list');
+        break;
+      }
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        error(`must have at least ${schema.minItems} entr${schema.minItems === 1 ? 'y' : 'ies'}`);
+      }
+      value.forEach((item, i) => validateField(item, schema.items, `${path}[${i}]`, issues));
+      break;
+    case 'object':
+      if (!isPlainObject(value)) {
+        error('must be an object');
+        break;
+      }
+      for (const [key, fieldSchema] of Object.entries(schema.fields)) {
+        validateField(value[key], fieldSchema, path ? `${path}.${key}` : key, issues);
+      }
+      break;
+    case 'map':
+      if (!isPlainObject(value)) {
+        error('must be a mapping');
+        break;
+      }
+      for (const [key, item] of Object.entries(value)) {
+        validateField(item, schema.values, `${path}.${key}`, issues);
+      }
+      break;
+  }
+}
+
+/** Mask the password part of a connection URL */
+function redactUrl(value: string): string {
+  try {
+    const url = new URL(value);
+    if (!url.password) return value;
+    url.password = REDACTED;
+    return url.toString();
+  } catch {
+    return value;
+  }
+}
+
+function redactField(value: unknown, schema: FieldSchema): unknown {
+  if (value === undefined || value === null) return value;
+  switch (schema.type) {
+    case 'string':
+      return schema.secret ? REDACTED : value;
+    case 'url':
+      return typeof value === 'string' ? redactUrl(value) : value;
+    case 'list':
+      return Array.isArray(value) ? value.map(item => redactField(item, schema.items)) : value;
+    case 'object':
+      if (!isPlainObject(value)) return value;
+      return Object.fromEntries(Object.entries(value).map(([key, v]) =>
+        [key, schema.fields[key] ? redactField(v, schema.fields[key]) : v]));
+    case 'map':
+      if (!isPlainObject(value)) return value;
+      return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, redactField(v, schema.values)]));
+    default:
+      return value;
+  }
+}
+
+/**
+ * Copy of the config with secrets (tokens, URL passwords) masked.
+ */
+export function redactConfig(config: Config): Record<string, unknown> {
+  return redactField(config, CONFIG_SCHEMA) as Record<string, unknown>;
+}
+
+/** Every port a metagraph node listens on must be distinct */
+function checkPortCollisions(config: Config, issues: ConfigIssue[]): void {
+  const kinds = [['ports', 'public'], ['cliPorts', 'cli'], ['p2pPorts', 'p2p']] as const;
+  const allPorts = new Map<number, string[]>();
+
+  for (const n of config.nodes ?? []) {
+    const owners = new Map<number, string[]>();
+    for (const [name, kind] of kinds) {
+      for (const layer of ALL_LAYERS) {
+        const p = nodePort(config, n, layer, kind);
+        if (typeof p !== 'number') continue;
+        owners.set(p, [...(owners.get(p) ?? []), `${name}.${layer}`]);
+      }
+    }
+    for (const [p, users] of owners) {
+      if (users.length > 1) {
+        issues.push({ severity: 'error', message: `Port ${p} on ${n.name} is used by more than one listener: ${users.join(', ')}` });
+      }
+      allPorts.set(p, [...new Set([...(allPorts.get(p) ?? []), ...users])]);
+    }
+  }
+
+  if (config.api?.enabled && allPorts.has(config.api.port)) {
+    issues.push({
+      severity: 'warning',
+      message: `API port ${config.api.port} collides with ${allPorts.get(config.api.port)!.join(', ')} — fine only if the watchdog does not run on a metagraph node`,
+    });
+  }
+}
+
+/**
+ * Validate the effective configuration. Errors make the config unusable;
+ * warnings flag settings that are legal but probably not intended.
+ */
+export function validateConfig(config: Config): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  validateField(config, CONFIG_SCHEMA, '', issues);
+
+  const seen = new Set<string>();
+  for (const n of config.nodes ?? []) {
+    if (seen.has(n.ip)) issues.push({ severity: 'error', message: `Node IP ${n.ip} is configured more than once` });
+    seen.add(n.ip);
+  }
+
+  checkPortCollisions(config, issues);
+
+  for (const [name, settings] of Object.entries(config.conditions ?? {})) {
+    if (settings.confirmCycles !== undefined && settings.windowCycles !== undefined && settings.windowCycles < settings.confirmCycles) {
+      issues.push({
+        severity: 'error',
+        message: `conditions.${name}.windowCycles (${settings.windowCycles}) must be at least confirmCycles (${settings.confirmCycles})`,
+      });
+    }
+  }
+
+  if (config.healthSources?.includes('prometheus') && !config.prometheus) {
+    issues.push({ severity: 'error', message: 'Health source "prometheus" needs a Prometheus URL (PROMETHEUS_URL / prometheus.url)' });
+  }
+
+  // Resolved as the wipe will see it: `/..` and `/opt/../` are the root too
+  const dataDir = config.forkHealing?.dataDir;
+  const wipesRoot = (dir: string) => posix.resolve(dir) === '/';
+  if (dataDir !== undefined && (!dataDir.startsWith('/')
+    || wipesRoot(dataDir.replaceAll('{layer}', ''))
+    || ALL_LAYERS.some(layer => wipesRoot(dataDir.replaceAll('{layer}', layer))))) {
+    issues.push({ severity: 'error', message: `forkHealing.dataDir must be an absolute path below / (got "${dataDir}")` });
+  }
+
+  if (config.sshKeyPath && !existsSync(config.sshKeyPath)) {
+    issues.push({ severity: 'warning', message: `SSH key ${config.sshKeyPath} does not exist — restarts and resource checks will fail` });
+  }
+  if (config.api?.enabled && !config.api.token) {
+    issues.push({ severity: 'warning', message: 'No API token (API_TOKEN / api.token) — manual restarts and config reloads over the API are refused' });
+  }
+  if (config.managedLayers?.length === 0) {
+    issues.push({ severity: 'warning', message: 'No managed layers — the watchdog will detect problems but never restart anything' });
+  }
+  if (config.restartCooldownMinutes === 0) {
+    issues.push({ severity: 'warning', message: 'Restart cooldown is 0 — restarts may run back to back' });
+  }
+  if (config.escalationWindowMinutes !== undefined && config.escalationWindowMinutes <= config.restartCooldownMinutes) {
+    issues.push({
+      severity: 'warning',
+      message: `Escalation window (${config.escalationWindowMinutes}m) is not longer than the restart cooldown (${config.restartCooldownMinutes}m) — restarts will never escalate`,
+    });
+  }
+  if (config.directPollDeadlineSeconds !== undefined && config.directPollDeadlineSeconds >= config.healthCheckIntervalSeconds) {
+    issues.push({
+      severity: 'warning',
+      message: `Direct poll deadline (${config.directPollDeadlineSeconds}s) is not shorter than the health check interval (${config.healthCheckIntervalSeconds}s) — fallback cycles may overlap`,
+    });
+  }
+  const updates = config.healthUpdates;
+  if (updates && updates.mode !== 'off') {
+    if (config.healthSources && !config.healthSources.includes('redis')) {
+      issues.push({ severity: 'warning', message: `Health updates (${updates.mode}) need the "redis" health source — cycles will run on the interval only` });
+    }
+    if (updates.minIntervalSeconds >= config.healthCheckIntervalSeconds) {
+      issues.push({
+        severity: 'warning',
+        message: `Health update spacing (${updates.minIntervalSeconds}s) is not shorter than the health check interval (${config.healthCheckIntervalSeconds}s) — updates will never trigger an earlier cycle`,
+      });
+    }
+  }
+  if (config.snapshotStallMinutes * 60 < config.healthCheckIntervalSeconds) {
+    issues.push({
+      severity: 'warning',
+      message: `Snapshot stall threshold (${config.snapshotStallMinutes}m) is shorter than the health check interval (${config.healthCheckIntervalSeconds}s)`,
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Human-readable report for `--validate-config`.
+ */
+export function formatValidationReport(config: Config | null, issues: ConfigIssue[]): string {
+  const errors = issues.filter(i => i.severity === 'error');
+  const warnings = issues.filter(i => i.severity === 'warning');
+  const lines: string[] = [];
+
+  if (config) {
+    lines.push(`Config file: ${config.configFile ?? '(none — environment only)'}`);
+    lines.push('');
+    lines.push('Effective configuration (secrets redacted):');
+    lines.push(JSON.stringify(redactConfig(config), null, 2));
+    lines.push('');
+  }
+
+  lines.push(`Errors (${errors.length}):`);
+  for (const e of errors) lines.push(`  ✗ ${e.message}`);
+  lines.push(`Warnings (${warnings.length}):`);
+  for (const w of warnings) lines.push(`  ⚠ ${w.message}`);
+  lines.push('');
+  lines.push(errors.length > 0 ? 'Configuration is INVALID' : 'Configuration is valid');
+
+  return lines.join('\n');
+}
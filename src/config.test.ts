@@ -0,0 +1,308 @@
+/**
+ * Configuration Loading Tests
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadConfig, checkConfig, configFilePath, ConfigError, nodePort, nodeContainer } from './config.js';
+
+vi.mock('./logger.js', () => ({
+  log: vi.fn(),
+}));
+
+let dir: string;
+
+beforeAll(() => {
+  dir = mkdtempSync(join(tmpdir(), 'watchdog-config-'));
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function writeFile(name: string, content: string): string {
+  const path = join(dir, name);
+  writeFileSync(path, content);
+  return path;
+}
+
+function problemsOf(fn: () => unknown): string[] {
+  try {
+    fn();
+  } catch (err) {
+    if (err instanceof ConfigError) return err.problems;
+    throw err;
+  }
+  throw new Error('expected ConfigError');
+}
+
+const yamlConfig = `
+nodes:
+  - { name: alpha, ip: 1.1.1.1, privateIp: 10.0.0.1 }
+  - { name: beta, ip: 2.2.2.2 }
+ports:
+  ml0: { public: 19200, cli: 19202 }
+managedLayers: [ml0, dl1]
+thresholds:
+  restartCooldownMinutes: 15
+  ordinalLagThreshold: 20
+telegram:
+  enabled: true
+  botToken: file-token
+  chatId: "123"
+api:
+  port: 4000
+`;
+
+describe('loadConfig()', () => {
+  it('uses defaults with no file and no env', () => {
+    const config = loadConfig([], {});
+    expect(config.nodes).toEqual([
+      { name: 'node1', ip: '10.0.0.1', privateIp: '10.0.0.1' },
+      { name: 'node2', ip: '10.0.0.2', privateIp: '10.0.0.2' },
+      { name: 'node3', ip: '10.0.0.3', privateIp: '10.0.0.3' },
+    ]);
+    expect(config.ports.ml0).toBe(9200);
+    expect(config.api).toEqual({ enabled: true, port: 3033 });
+    expect(config.configFile).toBeUndefined();
+  });
+
+  it('reads structured settings from a YAML file', () => {
+    const path = writeFile('watchdog.yaml', yamlConfig);
+    const config = loadConfig(['--config', path], {});
+
+    expect(config.configFile).toBe(path);
+    expect(config.nodes).toEqual([
+      { name: 'alpha', ip: '1.1.1.1', privateIp: '10.0.0.1' },
+      { name: 'beta', ip: '2.2.2.2', privateIp: '2.2.2.2' },
+    ]);
+    expect(config.ports.ml0).toBe(19200);
+    expect(config.cliPorts.ml0).toBe(19202);
+    expect(config.p2pPorts.ml0).toBe(9201);
+    expect(config.managedLayers).toEqual(['ml0', 'dl1']);
+    expect(config.restartCooldownMinutes).toBe(15);
+    expect(config.ordinalLagThreshold).toBe(20);
+    expect(config.telegram).toEqual({ enabled: true, botToken: 'file-token', chatId: '123' });
+    expect(config.api?.port).toBe(4000);
+  });
+
+  it('reads JSON files', () => {
+    const path = writeFile('watchdog.json', JSON.stringify({ nodes: [{ ip: '3.3.3.3' }], ssh: { user: 'ops' } }));
+    const config = loadConfig([`--config=${path}`], {});
+    expect(config.nodes).toEqual([{ name: 'node1', ip: '3.3.3.3', privateIp: '3.3.3.3' }]);
+    expect(config.sshUser).toBe('ops');
+  });
+
+  it('lets environment variables override file values', () => {
+    const path = writeFile('override.yaml', yamlConfig);
+    const config = loadConfig(['--config', path], {
+      ML0_PORT: '29200',
+      RESTART_COOLDOWN_MINUTES: '3',
+      TELEGRAM_BOT_TOKEN: 'env-token',
+      NODE_NAMES: 'a,b',
+    });
+    expect(config.ports.ml0).toBe(29200);
+    expect(config.cliPorts.ml0).toBe(19202);
+    expect(config.restartCooldownMinutes).toBe(3);
+    expect(config.telegram?.botToken).toBe('env-token');
+    expect(config.nodes.map(n => n.name)).toEqual(['a', 'b']);
+    expect(config.nodes[0].privateIp).toBe('10.0.0.1');
+  });
+
+  it('replaces the file node list with NODE_IPS', () => {
+    const path = writeFile('nodes.yaml', yamlConfig);
+    const config = loadConfig(['--config', path], { NODE_IPS: '5.5.5.5' });
+    expect(config.nodes).toEqual([{ name: 'node1', ip: '5.5.5.5', privateIp: '5.5.5.5' }]);
+  });
+
+  it('rejects mismatched node list lengths', () => {
+    const problems = problemsOf(() => loadConfig([], {
+      NODE_IPS: '1.1.1.1,2.2.2.2,3.3.3.3',
+      NODE_NAMES: 'a,b',
+      NODE_PRIVATE_IPS: '10.0.0.1',
+    }));
+    expect(problems).toEqual([
+      'NODE_NAMES has 2 entries but there are 3 nodes',
+      'NODE_PRIVATE_IPS has 1 entries but there are 3 nodes',
+    ]);
+  });
+
+  it('rejects empty list entries instead of shifting later entries', () => {
+    const problems = problemsOf(() => loadConfig([], { NODE_IPS: '1.1.1.1,,3.3.3.3' }));
+    expect(problems[0]).toContain('NODE_IPS contains an empty entry');
+  });
+
+  it('rejects unknown layers and non-numeric ports', () => {
+    const path = writeFile('bad.yaml', 'ports:\n  xl0: { public: 1 }\n  dl1: { public: "abc" }\n');
+    const problems = problemsOf(() => loadConfig(['--config', path], { MANAGED_LAYERS: 'ml0,xl0', GL0_PORT: '90o0' }));
+    expect(problems).toEqual(expect.arrayContaining([
+      'ports.xl0: unknown layer (expected gl0, ml0, cl1, dl1)',
+      'ports.dl1.public must be a non-negative integer (got "abc")',
+      'GL0_PORT must be a non-negative integer (got "90o0")',
+      'Unknown managed layer(s): xl0 (expected gl0, ml0, cl1, dl1)',
+    ]));
+  });
+
+  it('validates the merged result', () => {
+    const problems = problemsOf(() => loadConfig([], {
+      NODE_IPS: '1.1.1.1,1.1.1.1',
+      API_PORT: '70000',
+      HYPERGRAPH_ENABLED: 'true',
+      TELEGRAM_ENABLED: 'true',
+      STATE_STORE: 'redis',
+    }));
+    expect(problems).toEqual(expect.arrayContaining([
+      'Node IP 1.1.1.1 is configured more than once',
+      'api.port must be between 1 and 65535 (got 70000)',
+      expect.stringContaining('no L0 URLs'),
+      expect.stringContaining('bot token or chat id is missing'),
+      'Unknown state store "redis" (expected file, postgres or none)',
+    ]));
+  });
+
+  it('reads per-node container, port and SSH overrides', () => {
+    const path = writeFile('per-node.yaml', `
+nodes:
+  - { name: alpha, ip: 1.1.1.1 }
+  - name: beta
+    ip: 2.2.2.2
+    containers: { ml0: ml0-beta }
+    ports:
+      ml0: { public: 19210, p2p: 19211 }
+    sshPort: 2222
+    sshUser: ops
+`);
+    const config = loadConfig(['--config', path], {});
+    const beta = config.nodes[1];
+
+    expect(beta).toMatchObject({
+      containers: { ml0: 'ml0-beta' },
+      ports: { ml0: { public: 19210, p2p: 19211 } },
+      sshPort: 2222,
+      sshUser: 'ops',
+    });
+    expect(nodePort(config, beta, 'ml0')).toBe(19210);
+    expect(nodePort(config, beta, 'ml0', 'cli')).toBe(9202);
+    expect(nodePort(config, '1.1.1.1', 'ml0')).toBe(9200);
+    expect(nodeContainer(config, beta, 'ml0')).toBe('ml0-beta');
+    expect(nodeContainer(config, beta, 'dl1')).toBe('dl1');
+  });
+
+  it('names containers by node index with containerNaming: indexed', () => {
+    const path = writeFile('indexed.yaml', 'containerNaming: indexed\nservicesNode: { ip: 9.9.9.9 }\n');
+    const config = loadConfig(['--config', path], { NODE_IPS: '1.1.1.1,2.2.2.2' });
+
+    expect(nodeContainer(config, '2.2.2.2', 'ml0')).toBe('ml0-1');
+    expect(nodeContainer(config, '9.9.9.9', 'ml0')).toBe('ml0');
+    expect(nodeContainer(loadConfig([], { NODE_IPS: '1.1.1.1,2.2.2.2' }), '2.2.2.2', 'ml0')).toBe('ml0');
+    expect(problemsOf(() => loadConfig([], { CONTAINER_NAMING: 'numbered' }))).toEqual([
+      'Unknown container naming "numbered" (expected layer or indexed)',
+    ]);
+  });
+
+  it('rejects unknown layers in per-node overrides', () => {
+    const path = writeFile('per-node-bad.yaml', 'nodes:\n  - { ip: 1.1.1.1, ports: { xl0: { public: 1 } }, sshPort: "ssh" }\n');
+    expect(problemsOf(() => loadConfig(['--config', path], {}))).toEqual(expect.arrayContaining([
+      'nodes[0].ports.xl0: unknown layer (expected gl0, ml0, cl1, dl1)',
+      'nodes[0].sshPort must be a non-negative integer (got "ssh")',
+    ]));
+  });
+
+  it('reads per-condition settings and custom condition modules', () => {
+    const path = writeFile('conditions.yaml', `
+conditions:
+  NodeResources: { interval: 5 }
+  UnhealthyNodes: { confirmCycles: 3, windowCycles: 5, minDurationSecs: 90 }
+  HypergraphHealth: { enabled: false }
+  OrdinalLag: { restartScope: full-layer }
+conditionModules: [./custom-conditions.mjs]
+`);
+    const config = loadConfig(['--config', path], {});
+    expect(config.conditions).toEqual({
+      NodeResources: { interval: 5 },
+      UnhealthyNodes: { confirmCycles: 3, windowCycles: 5, minDurationSecs: 90 },
+      HypergraphHealth: { enabled: false },
+      OrdinalLag: { restartScope: 'full-layer' },
+    });
+    expect(config.conditionModules).toEqual(['./custom-conditions.mjs']);
+  });
+
+  it('rejects bad per-condition settings', () => {
+    const path = writeFile('conditions-bad.yaml', 'conditions:\n  OrdinalLag: { interval: 0, restartScope: everything }\n  NodeResources: off\n  ForkedCluster: { confirmCycles: 3, windowCycles: 2 }\n');
+    expect(problemsOf(() => loadConfig(['--config', path], {}))).toEqual(expect.arrayContaining([
+      'conditions.OrdinalLag.interval must be at least 1',
+      'conditions.OrdinalLag.restartScope must be one of none, individual-node, full-layer, full-metagraph (got "everything")',
+      'conditions.NodeResources must be a mapping of condition settings',
+      'conditions.ForkedCluster.windowCycles (2) must be at least confirmCycles (3)',
+    ]));
+  });
+
+  it('reads the health source chain and Prometheus settings', () => {
+    const path = writeFile('sources.yaml', `
+healthSources: [prometheus, direct]
+prometheus:
+  url: http://prometheus:9090
+  metrics: { ordinal: dag_snapshot_ordinal }
+`);
+    const config = loadConfig(['--config', path], {});
+    expect(config.healthSources).toEqual(['prometheus', 'direct']);
+    expect(config.prometheus).toEqual({
+      url: 'http://prometheus:9090',
+      metrics: { up: 'up', ordinal: 'dag_snapshot_ordinal', state: 'tessellation_node_state', clusterSize: 'tessellation_cluster_size' },
+    });
+    expect(loadConfig([], {}).healthSources).toEqual(['redis', 'direct']);
+  });
+
+  it('rejects unknown health sources and Prometheus without a URL', () => {
+    expect(problemsOf(() => loadConfig([], { HEALTH_SOURCES: 'redis,carrier-pigeon' }))).toEqual([
+      'Unknown health source(s): carrier-pigeon (expected redis, direct, prometheus)',
+    ]);
+    expect(problemsOf(() => loadConfig([], { HEALTH_SOURCES: 'prometheus,direct' }))).toEqual([
+      'Health source "prometheus" needs a Prometheus URL (PROMETHEUS_URL / prometheus.url)',
+    ]);
+  });
+
+  it('reads health update settings', () => {
+    expect(loadConfig([], {}).healthUpdates).toEqual({ mode: 'off', channel: 'monitor:health:updates', minIntervalSeconds: 10 });
+    expect(loadConfig([], { HEALTH_UPDATES: 'keyspace', HEALTH_UPDATES_MIN_INTERVAL_SECONDS: '5' }).healthUpdates)
+      .toEqual({ mode: 'keyspace', channel: 'monitor:health:updates', minIntervalSeconds: 5 });
+    expect(problemsOf(() => loadConfig([], { HEALTH_UPDATES: 'webhook' }))).toEqual([
+      'Unknown health update mode "webhook" (expected pubsub, keyspace or off)',
+    ]);
+  });
+
+  it('reports unreadable and malformed files', () => {
+    expect(problemsOf(() => loadConfig(['--config', join(dir, 'missing.yaml')], {}))[0])
+      .toContain('Cannot read config file');
+    const path = writeFile('broken.json', '{ nodes: ');
+    expect(problemsOf(() => loadConfig(['--config', path], {}))[0]).toContain('Cannot parse config file');
+    const list = writeFile('list.yaml', '- a\n- b\n');
+    expect(problemsOf(() => loadConfig(['--config', list], {}))[0]).toContain('must contain a mapping');
+  });
+});
+
+describe('checkConfig()', () => {
+  it('warns about unknown file keys without failing', () => {
+    const path = writeFile('typo.yaml', 'thresholds:\n  restartCooldown: 5\nnodes:\n  - { ip: 1.1.1.1, host: x }\nports:\n  zz0: { public: 1 }\n');
+    const { issues } = checkConfig(['--config', path], {});
+    const warnings = issues.filter(i => i.severity === 'warning').map(i => i.message);
+    expect(warnings).toContain('Unknown config file key thresholds.restartCooldown (ignored)');
+    expect(warnings).toContain('Unknown config file key nodes[0].host (ignored)');
+    expect(warnings.some(w => w.includes('zz0'))).toBe(false);
+  });
+
+  it('returns file errors without a config', () => {
+    const report = checkConfig(['--config', join(dir, 'nope.yaml')], {});
+    expect(report.config).toBeNull();
+    expect(report.issues[0].severity).toBe('error');
+  });
+});
+
+describe('configFilePath()', () => {
+  it('requires a path after --config', () => {
+    expect(() => configFilePath(['--config', '--daemon'])).toThrow(ConfigError);
+    expect(configFilePath(['--daemon'])).toBeUndefined();
+  });
+});
@@ -8,34 +8,68 @@
  *   npx tsx src/index.ts            # Single check
  *   npx tsx src/index.ts --daemon   # Continuous monitoring
  *   npx tsx src/index.ts --once     # Single check (alias)
+ *   npx tsx src/index.ts --daemon --dry-run  # Observe only — plan restarts, never execute
+ *   npx tsx src/index.ts --daemon --config watchdog.yaml  # Load settings from a file (env overrides)
+ *   npx tsx src/index.ts --validate-config [--config f]   # Print effective config + problems, exit 1 on errors
+ *   npx tsx src/index.ts recover [--dry-run] [--layer dl1]  # Rejoin forked minority nodes (see restart/recovery.ts)
+ *
+ * In daemon mode, SIGHUP (or POST /api/config/reload) reloads the configuration.
  *
  * Data Flow:
  *   Services Monitor → Redis → Watchdog (this) → SSH Restart
  *                           ↘ Postgres (events) ↙
  *
  * Alerting is handled by Prometheus/Alertmanager, NOT by the watchdog.
+ * The watchdog exports its own metrics at GET /metrics on the API port.
  */
 
-import { loadConfig, type Config } from './config.js';
+import { loadConfig, checkConfig, ConfigError, type Config } from './config.js';
+import { formatValidationReport } from './config-validation.js';
+import { reloadConfig } from './config-reload.js';
 import { HealthReader } from './services/health-reader.js';
-import { detectForkedClusterFromSnapshot } from './conditions/forked-cluster.js';
-import { detectSnapshotsStoppedFromSnapshot, StallTracker } from './conditions/snapshots-stopped.js';
-import { detectUnhealthyNodesFromSnapshot } from './conditions/unhealthy-nodes.js';
-import { detectServicesHealth } from './conditions/services-health.js';
-import { detectNodeResourceIssues } from './conditions/node-resources.js';
-import { detectHypergraphHealth } from './conditions/hypergraph-health.js';
-import { detectOrdinalLagFromSnapshot } from './conditions/ordinal-lag.js';
-import { executeRestart, isRestartSuspended, resetRestartState, getRestartState } from './restart/orchestrator.js';
+import { CycleScheduler } from './scheduler.js';
+import { StallTracker } from './conditions/snapshots-stopped.js';
+import { DetectionDebouncer, describePending } from './conditions/debounce.js';
+import {
+  conditionRegistry,
+  conditionDebounce,
+  detectCondition,
+  loadConditionModules,
+  redetectConditions,
+  type ConditionContext,
+} from './conditions/registry.js';
+import {
+  executeRestart,
+  isRestartSuspended,
+  resetRestartState,
+  getRestartState,
+  configureRestartStateStore,
+  configureRestartVerifier,
+  configureSourceCrossChecker,
+  rehydrateRestartState,
+  flushRestartState,
+} from './restart/orchestrator.js';
+import { createStateStore } from './restart/state-store.js';
 import { EventPublisher } from './services/events.js';
 import { NotificationService } from './notifications.js';
 import { startApiServer } from './api.js';
+import { mergeDetections } from './restart/remediation.js';
+import { createRestartVerifier } from './restart/verification.js';
+import { createSourceCrossChecker } from './restart/cross-check.js';
+import { runRecoverCommand } from './restart/recovery.js';
+import { detectNoHealthDataFromSnapshot } from './conditions/no-health-data.js';
+import { cloneLagTracker } from './conditions/ordinal-lag.js';
+import type { DetectionResult } from './types.js';
+import { recordSnapshot, recordConditionResult, recordConditionError, recordHealthCheckCycle } from './metrics.js';
 import { log } from './logger.js';
-import type { DetectionResult, HealthSnapshot } from './types.js';
 
 // Global stall tracker (survives across check cycles)
 const stallTracker = new StallTracker();
 
-// Track cycle count for hypergraph check interval multiplier
+// Confirms detections before they are acted on (survives across check cycles)
+const debouncer = new DetectionDebouncer();
+
+// Track cycle count for per-condition intervals
 let cycleCount = 0;
 
 async function runHealthCheck(
@@ -50,95 +84,109 @@ async function runHealthCheck(
   // --- Phase 1: Read health data from Redis (or fallback to direct) ---
   const snapshot = await healthReader.getHealthSnapshot();
   log(`[Monitor] Health data source: ${snapshot.source} (stale: ${snapshot.stale})`);
+  recordSnapshot(snapshot);
+
+  // Without data every detector would see a healthy cluster — and the
+  // recovery check below would lift a restart suspension
+  const noData = detectNoHealthDataFromSnapshot(snapshot);
+  recordConditionResult(noData);
+  if (noData.detected) {
+    log(`[Monitor] Condition detected: ${noData.condition} — ${noData.details}`);
+    await notificationService.notifyIssueDetected(noData);
+    await eventPublisher.publishRestart(noData, noData.restartScope, false);
+    return;
+  }
 
   // --- Phase 2: Check conditions using the snapshot data ---
-  type ConditionEntry = {
-    name: string;
-    detect: () => DetectionResult | Promise<DetectionResult>;
-  };
-
-  const conditions: ConditionEntry[] = [
-    { name: 'ForkedCluster', detect: () => detectForkedClusterFromSnapshot(config, snapshot) },
-    { name: 'SnapshotsStopped', detect: () => detectSnapshotsStoppedFromSnapshot(config, snapshot, stallTracker) },
-    { name: 'UnhealthyNodes', detect: () => detectUnhealthyNodesFromSnapshot(config, snapshot) },
-    { name: 'OrdinalLag', detect: () => detectOrdinalLagFromSnapshot(config, snapshot) },
-  ];
-
-  // Services node monitoring (if configured)
-  if (config.servicesNode) {
-    conditions.push({
-      name: 'ServicesHealth',
-      detect: () => detectServicesHealth(config),
-    });
+  const ctx: ConditionContext = { config, snapshot, cycle: cycleCount, stallTracker, results: new Map() };
+
+  // Evaluate every due condition before acting on any of them. Detections
+  // still awaiting confirmation are held back from the remediation.
+  const results: DetectionResult[] = [];
+  let issuesPending = 0;
+  for (const condition of conditionRegistry.due(config, cycleCount)) {
+    try {
+      const result = await detectCondition(condition, ctx);
+      recordConditionResult(result);
+
+      const status = debouncer.observe(result, conditionDebounce(condition, config));
+      if (status?.state === 'pending') {
+        issuesPending++;
+        log(`[Monitor] Condition pending confirmation: ${condition.name} (${describePending(status)}) — ${result.details}`);
+        continue;
+      }
+
+      results.push(result);
+      if (result.detected) {
+        log(`[Monitor] Condition detected: ${condition.name} — ${result.details}`);
+        await notificationService.notifyIssueDetected(result);
+      }
+    } catch (err) {
+      log(`[Monitor] Error checking ${condition.name}: ${err}`);
+      recordConditionError(condition.name);
+    }
   }
 
-  // Resource monitoring across all nodes (every 3rd cycle to reduce SSH load)
-  if (cycleCount === 1 || cycleCount % 3 === 0) {
-    conditions.push({
-      name: 'NodeResources',
-      detect: () => detectNodeResourceIssues(config),
-    });
+  const issuesDetected = results.filter(r => r.detected).length + issuesPending;
+
+  // --- Phase 3: Merge the detections into one remediation and act on it ---
+  const remediation = mergeDetections(results);
+  for (const line of remediation.reasoning) log(`[Monitor] ${line}`);
+
+  // Detection-only conditions (e.g., hypergraph) — published, never restarted
+  for (const result of results.filter(r => r.detected && r.restartScope === 'none')) {
+    await eventPublisher.publishRestart(result, result.restartScope, false);
   }
 
-  // Add hypergraph condition if enabled, respecting check interval multiplier
-  if (config.hypergraph?.enabled) {
-    const multiplier = config.hypergraph.checkIntervalMultiplier;
-    if (cycleCount === 1 || cycleCount % multiplier === 0) {
-      conditions.push({
-        name: 'HypergraphHealth',
-        detect: () => detectHypergraphHealth(config, snapshot),
-      });
-    } else {
-      log(`[Monitor] Skipping hypergraph check (cycle ${cycleCount}, runs every ${multiplier})`);
+  const detection = remediation.detection;
+  if (detection) {
+    const restartResult = await executeRestart(config, detection, { snapshot });
+
+    // When Redis and the nodes disagree the restart was aborted and the
+    // disagreement is raised as a detection of its own
+    const crossCheckResult = restartResult.crossCheckResult;
+    if (crossCheckResult) {
+      recordConditionResult(crossCheckResult);
+      if (crossCheckResult.detected) {
+        log(`[Monitor] Condition detected: ${crossCheckResult.condition} — ${crossCheckResult.details}`);
+        await notificationService.notifyIssueDetected(crossCheckResult);
+        await eventPublisher.publishRestart(crossCheckResult, crossCheckResult.restartScope, false);
+      }
     }
-  }
 
-  let issuesDetected = 0;
+    // Conditions the restart addressed must be confirmed afresh
+    if (restartResult.event && !crossCheckResult?.detected) {
+      for (const condition of remediation.covered) debouncer.clear(condition);
+    }
 
-  for (const condition of conditions) {
-    try {
-      const result = await condition.detect();
+    if (restartResult.event?.dryRun) {
+      // Observe-only: publish the plan, nothing was touched
+      await eventPublisher.publishRestartPlan(detection, restartResult.event);
+    } else {
+      // The scope actually run — escalation may have changed the requested one
+      const scope = restartResult.event?.scope ?? detection.restartScope;
 
-      if (result.detected) {
-        issuesDetected++;
-        log(`[Monitor] Condition detected: ${condition.name} — ${result.details}`);
+      // Publish restart event to Postgres
+      await eventPublisher.publishRestart(
+        detection,
+        scope,
+        restartResult.success,
+        restartResult.error,
+        restartResult.event?.timestamp,
+        restartResult.event?.crossCheck,
+      );
 
-        // Notify on detection
-        await notificationService.notifyIssueDetected(result);
+      // Notify on restart result
+      await notificationService.notifyRestartComplete(detection, scope, restartResult.success, restartResult.error);
 
-        if (result.restartScope === 'none') {
-          // Detection-only conditions (e.g., hypergraph) — log but don't restart
-          log(`[Monitor] ${condition.name}: detection only (restartScope: none), no action taken`);
-          await eventPublisher.publishRestart(result, result.restartScope, false);
-          continue;
-        }
-
-        const restartResult = await executeRestart(config, result);
-        const restarted = restartResult.success;
-
-        // Publish restart event to Postgres
-        await eventPublisher.publishRestart(result, result.restartScope, restarted);
-
-        // Notify on restart result
-        await notificationService.notifyRestartComplete(result, result.restartScope, restarted, restartResult.error);
-
-        // Check if we're now suspended
-        if (isRestartSuspended()) {
-          const state = getRestartState();
-          await notificationService.notifyRestartsSuspended(
-            state.consecutiveFailures,
-            state.lastCondition ?? condition.name,
-          );
-        }
-
-        if (restarted) {
-          log('[Monitor] Restart performed, skipping remaining checks');
-          return;
-        }
-        // If restart was skipped (cooldown/rate limit), continue checking
+      // Check if we're now suspended
+      if (isRestartSuspended()) {
+        const state = getRestartState();
+        await notificationService.notifyRestartsSuspended(
+          state.consecutiveFailures,
+          state.lastCondition ?? detection.condition,
+        );
       }
-    } catch (err) {
-      log(`[Monitor] Error checking ${condition.name}: ${err}`);
     }
   }
 
@@ -155,21 +203,100 @@ async function runHealthCheck(
   }
 }
 
+/** Run one health-check cycle and record its duration */
+async function timedHealthCheck(
+  config: Config,
+  healthReader: HealthReader,
+  eventPublisher: EventPublisher,
+  notificationService: NotificationService,
+): Promise<void> {
+  const started = Date.now();
+  try {
+    await runHealthCheck(config, healthReader, eventPublisher, notificationService);
+  } finally {
+    recordHealthCheckCycle(Date.now() - started);
+  }
+}
+
 async function main(): Promise<void> {
+  if (process.argv.includes('--validate-config')) {
+    const { config, issues } = checkConfig();
+    console.log(formatValidationReport(config, issues));
+    process.exit(issues.some(i => i.severity === 'error') ? 1 : 0);
+  }
+
+  if (process.argv[2] === 'recover') {
+    process.exit(await runRecoverCommand());
+  }
+
   const config = loadConfig();
+
+  await loadConditionModules(conditionRegistry, config);
+  conditionRegistry.list(); // fail fast on unknown or cyclic dependencies
+  for (const name of conditionRegistry.unknownSettings(config)) {
+    log(`[Config] Warning: conditions.${name} matches no registered condition (ignored)`);
+  }
+
   const healthReader = new HealthReader(config);
   const eventPublisher = new EventPublisher(config);
   const notificationService = new NotificationService({ telegram: config.telegram });
 
+  // Restore rate limit / cooldown / suspension state from before a process restart.
+  // A dry-run instance keeps its state in memory so it can never overwrite the
+  // state of a live watchdog sharing the same store.
+  if (!config.dryRun) {
+    configureRestartStateStore(createStateStore(config, eventPublisher));
+    await rehydrateRestartState();
+  }
+
+  // A live restart only counts as successful once the cluster is verified healthy
+  configureRestartVerifier(createRestartVerifier(config, {
+    readSnapshot: since => healthReader.getSnapshotSince(since),
+    redetect: (names, snapshot) => redetectConditions(conditionRegistry, names, {
+      config,
+      snapshot,
+      cycle: cycleCount,
+      stallTracker: stallTracker.clone(),
+      lagTracker: cloneLagTracker(),
+      results: new Map(),
+    }),
+  }));
+
+  // Optionally confirm Redis data with direct probes before acting on it
+  configureSourceCrossChecker(config.crossCheck?.enabled ? createSourceCrossChecker(config) : null);
+
+  // Daemon cycles run on the interval, and sooner when Redis announces new data
+  const scheduler = config.daemon
+    ? new CycleScheduler(async reason => {
+      if (reason === 'update') log('[Watchdog] New health data published — running a cycle');
+      await timedHealthCheck(config, healthReader, eventPublisher, notificationService);
+    }, {
+      intervalMs: () => config.healthCheckIntervalSeconds * 1000,
+      minSpacingMs: () => (config.healthUpdates?.minIntervalSeconds ?? 0) * 1000,
+    })
+    : null;
+
   // Start HTTP API if enabled
-  const apiServer = config.api ? startApiServer(config, config.api) : null;
+  const apiServer = config.api
+    ? startApiServer(config, config.api, {
+      eventPublisher,
+      notificationService,
+      healthReader,
+      stallTracker,
+      debouncer,
+      runBetweenCycles: scheduler ? fn => scheduler.runBetweenCycles(fn) : undefined,
+    })
+    : null;
 
   log('OttoChain Watchdog starting');
+  if (config.configFile) log(`Config file: ${config.configFile}`);
   log(`Nodes: ${config.nodes.map(n => `${n.name}(${n.ip})`).join(', ')}`);
-  log(`Mode: ${config.daemon ? 'daemon' : 'single check'}`);
+  log(`Mode: ${config.daemon ? 'daemon' : 'single check'}${config.dryRun ? ' (DRY-RUN — restarts are planned, never executed)' : ''}`);
   log(`Interval: ${config.healthCheckIntervalSeconds}s`);
   log(`Managed layers: ${config.managedLayers.join(', ')}`);
+  log(`Conditions: ${conditionRegistry.names().join(', ')}`);
   log(`Max consecutive failures: ${config.maxConsecutiveFailures}`);
+  log(`Restart state store: ${config.stateStore}${config.stateStore === 'file' ? ` (${config.stateFilePath})` : ''}`);
   log(`Health data stale threshold: ${config.healthDataStaleSeconds}s`);
   if (config.hypergraph?.enabled) {
     log(`Hypergraph monitoring: enabled (L0: ${config.hypergraph.l0Urls.join(', ')}, multiplier: ${config.hypergraph.checkIntervalMultiplier}x)`);
@@ -179,13 +306,15 @@ async function main(): Promise<void> {
   await eventPublisher.publishLifecycle(true);
   await notificationService.notifyLifecycle(true);
 
-  if (config.daemon) {
+  if (scheduler) {
     // Handle graceful shutdown
     const shutdown = async () => {
       log('[Watchdog] Shutting down...');
+      scheduler.stop();
       await notificationService.notifyLifecycle(false);
       await eventPublisher.publishLifecycle(false);
       if (apiServer) apiServer.close();
+      await flushRestartState();
       await healthReader.close();
       await eventPublisher.close();
       process.exit(0);
@@ -193,24 +322,32 @@ async function main(): Promise<void> {
     process.on('SIGINT', shutdown);
     process.on('SIGTERM', shutdown);
 
-    // eslint-disable-next-line no-constant-condition
-    while (true) {
-      try {
-        await runHealthCheck(config, healthReader, eventPublisher, notificationService);
-      } catch (err) {
-        log(`[Watchdog] Unexpected error: ${err}`);
-      }
-      await new Promise(resolve => setTimeout(resolve, config.healthCheckIntervalSeconds * 1000));
+    // Re-read the config file/env and apply it between cycles, without losing restart or tracker state
+    process.on('SIGHUP', () => {
+      log('[Watchdog] SIGHUP received — reloading configuration');
+      void scheduler.runBetweenCycles(() => reloadConfig(config));
+    });
+
+    scheduler.start();
+
+    // React to new Redis data straight away; the interval remains the fallback
+    if (await healthReader.subscribe(() => scheduler.trigger())) {
+      log(`[Watchdog] Health updates: ${config.healthUpdates!.mode} (cycles at least ${config.healthUpdates!.minIntervalSeconds}s apart)`);
     }
   } else {
-    await runHealthCheck(config, healthReader, eventPublisher, notificationService);
+    await timedHealthCheck(config, healthReader, eventPublisher, notificationService);
     if (apiServer) apiServer.close();
+    await flushRestartState();
     await healthReader.close();
     await eventPublisher.close();
   }
 }
 
 main().catch(err => {
+  if (err instanceof ConfigError) {
+    console.error(err.message);
+    process.exit(1);
+  }
   console.error('Fatal error:', err);
   process.exit(1);
 });
@@ -0,0 +1,93 @@
+/**
+ * Prometheus Metrics Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  recordConditionResult,
+  recordConditionError,
+  recordRestartAttempt,
+  recordRestartBlocked,
+  recordSnapshot,
+  recordHealthCheckCycle,
+  renderMetrics,
+  resetMetrics,
+} from './metrics.js';
+import type { HealthSnapshot } from './types.js';
+
+const idle = { consecutiveFailures: 0, suspended: false };
+
+beforeEach(() => {
+  resetMetrics();
+});
+
+describe('renderMetrics()', () => {
+  it('always exposes restart state', () => {
+    const text = renderMetrics({ consecutiveFailures: 2, suspended: true });
+    expect(text).toContain('# TYPE watchdog_consecutive_restart_failures gauge');
+    expect(text).toContain('watchdog_consecutive_restart_failures 2');
+    expect(text).toContain('watchdog_restarts_suspended 1');
+    expect(text.endsWith('\n')).toBe(true);
+  });
+
+  it('tracks condition gauges and counters', () => {
+    const base = { condition: 'ForkedCluster', details: '', restartScope: 'full-layer' as const };
+    recordConditionResult({ ...base, detected: true });
+    recordConditionResult({ ...base, detected: false });
+    recordConditionError('NodeResources');
+
+    const text = renderMetrics(idle);
+    expect(text).toContain('watchdog_condition_detected{condition="ForkedCluster"} 0');
+    expect(text).toContain('watchdog_condition_evaluations_total{condition="ForkedCluster"} 2');
+    expect(text).toContain('watchdog_condition_detections_total{condition="ForkedCluster"} 1');
+    expect(text).toContain('watchdog_condition_errors_total{condition="NodeResources"} 1');
+    expect(text).toContain('# TYPE watchdog_condition_detections_total counter');
+  });
+
+  it('counts restart attempts per layer and outcome', () => {
+    const event = { timestamp: '', scope: 'full-metagraph' as const, condition: 'X', layers: ['ml0', 'dl1'] as const, nodes: [] };
+    recordRestartAttempt({ ...event, layers: [...event.layers], success: true });
+    recordRestartAttempt({ ...event, layers: [...event.layers], success: false });
+    recordRestartAttempt({ ...event, layers: ['dl1'], success: true, dryRun: true });
+    recordRestartBlocked('X');
+
+    const text = renderMetrics(idle);
+    expect(text).toContain('watchdog_restart_attempts_total{scope="full-metagraph",layer="dl1"} 3');
+    expect(text).toContain('watchdog_restart_attempts_total{scope="full-metagraph",layer="ml0"} 2');
+    expect(text).toContain('watchdog_restart_outcomes_total{scope="full-metagraph",layer="ml0",outcome="success"} 1');
+    expect(text).toContain('watchdog_restart_outcomes_total{scope="full-metagraph",layer="ml0",outcome="failure"} 1');
+    expect(text).toContain('watchdog_restart_outcomes_total{scope="full-metagraph",layer="dl1",outcome="planned"} 1');
+    expect(text).toContain('watchdog_restarts_blocked_total{condition="X"} 1');
+  });
+
+  it('exposes the latest snapshot per node and layer', () => {
+    const snapshot: HealthSnapshot = {
+      timestamp: new Date(10_000),
+      stale: false,
+      source: 'direct',
+      nodes: [{
+        ip: '10.0.0.1',
+        name: 'node1',
+        layers: [{ layer: 'ml0', state: 'Ready', ordinal: 42, reachable: true, clusterSize: 3 }],
+      }],
+      unknownNodes: ['10.0.0.9'],
+    };
+    recordSnapshot(snapshot);
+    recordHealthCheckCycle(1500);
+
+    const text = renderMetrics(idle, 25_000);
+    expect(text).toContain('watchdog_snapshot_source{source="redis"} 0');
+    expect(text).toContain('watchdog_snapshot_source{source="direct"} 1');
+    expect(text).toContain('watchdog_snapshot_age_seconds 15');
+    expect(text).toContain('watchdog_snapshot_unknown_nodes 1');
+    expect(text).toContain('watchdog_node_ordinal{node="node1",ip="10.0.0.1",layer="ml0"} 42');
+    expect(text).toContain('watchdog_node_state{node="node1",ip="10.0.0.1",layer="ml0",state="Ready"} 1');
+    expect(text).toContain('watchdog_health_check_duration_seconds 1.5');
+    expect(text).toContain('watchdog_health_check_cycles_total 1');
+  });
+
+  it('escapes label values', () => {
+    recordConditionError('a"b\\c');
+    expect(renderMetrics(idle)).toContain('watchdog_condition_errors_total{condition="a\\"b\\\\c"} 1');
+  });
+});
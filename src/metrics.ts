@@ -0,0 +1,192 @@
+/**
+ * Prometheus Metrics
+ *
+ * Exposes watchdog state in the Prometheus text exposition format for
+ * GET /metrics. Alerting rules live in Alertmanager — the watchdog only
+ * reports what it sees and what it did.
+ *
+ * Counters and cycle gauges are recorded by the daemon loop and the restart
+ * orchestrator; per-node gauges are derived from the latest HealthSnapshot
+ * at scrape time.
+ */
+
+import type { DetectionResult, HealthSnapshot, RestartEvent } from './types.js';
+import { HEALTH_SOURCE_NAMES } from './types.js';
+
+type Labels = Record<string, string>;
+
+interface MetricFamily {
+  help: string;
+  type: 'counter' | 'gauge';
+  samples: Map<string, { labels: Labels; value: number }>;
+}
+
+/** Restart state the orchestrator owns, passed in at render time */
+export interface RestartMetricsState {
+  consecutiveFailures: number;
+  suspended: boolean;
+}
+
+const families = new Map<string, MetricFamily>();
+let latestSnapshot: HealthSnapshot | null = null;
+
+function family(name: string, type: MetricFamily['type'], help: string): MetricFamily {
+  let f = families.get(name);
+  if (!f) {
+    f = { help, type, samples: new Map() };
+    families.set(name, f);
+  }
+  return f;
+}
+
+function labelKey(labels: Labels): string {
+  return Object.keys(labels).sort().map(k => `${k}=${labels[k]}`).join(',');
+}
+
+function setGauge(name: string, help: string, labels: Labels, value: number): void {
+  family(name, 'gauge', help).samples.set(labelKey(labels), { labels, value });
+}
+
+function incCounter(name: string, help: string, labels: Labels, by = 1): void {
+  const f = family(name, 'counter', help);
+  const key = labelKey(labels);
+  const sample = f.samples.get(key);
+  if (sample) sample.value += by;
+  else f.samples.set(key, { labels, value: by });
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatSample(name: string, labels: Labels, value: number): string {
+  const entries = Object.entries(labels);
+  const labelStr = entries.length > 0
+    ? `{${entries.map(([k, v]) => `${k}="${escapeLabelValue(v)}"`).join(',')}}`
+    : '';
+  return `${name}${labelStr} ${Number.isFinite(value) ? value : 'NaN'}`;
+}
+
+function renderFamily(lines: string[], name: string, f: MetricFamily): void {
+  lines.push(`# HELP ${name} ${f.help}`);
+  lines.push(`# TYPE ${name} ${f.type}`);
+  for (const { labels, value } of f.samples.values()) {
+    lines.push(formatSample(name, labels, value));
+  }
+}
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+/** Record the outcome of one condition evaluation */
+export function recordConditionResult(result: DetectionResult): void {
+  const labels = { condition: result.condition };
+  setGauge('watchdog_condition_detected', 'Whether the condition was detected in its latest evaluation (1) or not (0)', labels, result.detected ? 1 : 0);
+  incCounter('watchdog_condition_evaluations_total', 'Condition evaluations', labels);
+  if (result.detected) {
+    incCounter('watchdog_condition_detections_total', 'Condition evaluations that detected a problem', labels);
+  }
+}
+
+/** Record a condition whose detector threw */
+export function recordConditionError(condition: string): void {
+  incCounter('watchdog_condition_errors_total', 'Condition evaluations that failed with an error', { condition });
+}
+
+/**
+ * Record a restart attempt. One sample per restarted layer, so a full-metagraph
+ * restart counts once for each layer it touched.
+ */
+export function recordRestartAttempt(event: RestartEvent): void {
+  const outcome = event.dryRun ? 'planned' : event.success ? 'success' : 'failure';
+  const layers = event.layers.length > 0 ? event.layers : ['none'];
+  for (const layer of layers) {
+    incCounter('watchdog_restart_attempts_total', 'Restart attempts by scope and layer', { scope: event.scope, layer });
+    incCounter('watchdog_restart_outcomes_total', 'Restart outcomes by scope, layer and outcome (success, failure, planned)', { scope: event.scope, layer, outcome });
+  }
+}
+
+/** Record a restart refused by a guard (suspension, rate limit, cooldown, in progress) */
+export function recordRestartBlocked(condition: string): void {
+  incCounter('watchdog_restarts_blocked_total', 'Restarts refused by a guard (suspension, rate limit, cooldown, concurrent restart)', { condition });
+}
+
+/** Record the snapshot a health-check cycle acted on */
+export function recordSnapshot(snapshot: HealthSnapshot): void {
+  latestSnapshot = snapshot;
+}
+
+/** Record a completed health-check cycle */
+export function recordHealthCheckCycle(durationMs: number): void {
+  setGauge('watchdog_health_check_duration_seconds', 'Duration of the latest health-check cycle', {}, durationMs / 1000);
+  setGauge('watchdog_health_check_last_timestamp_seconds', 'Unix time the latest health-check cycle finished', {}, Date.now() / 1000);
+  incCounter('watchdog_health_check_cycles_total', 'Health-check cycles run', {});
+}
+
+/** Clear all recorded metrics (for testing) */
+export function resetMetrics(): void {
+  families.clear();
+  latestSnapshot = null;
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+function snapshotFamilies(snapshot: HealthSnapshot, now: number): Map<string, MetricFamily> {
+  const out = new Map<string, MetricFamily>();
+  const add = (name: string, help: string, labels: Labels, value: number): void => {
+    let f = out.get(name);
+    if (!f) {
+      f = { help, type: 'gauge', samples: new Map() };
+      out.set(name, f);
+    }
+    f.samples.set(labelKey(labels), { labels, value });
+  };
+
+  for (const source of HEALTH_SOURCE_NAMES) {
+    const used = snapshot.source === source || snapshot.nodes.some(n => n.source === source);
+    add('watchdog_snapshot_source', 'Sources of the latest health snapshot (1 for each source that supplied nodes)', { source }, used ? 1 : 0);
+  }
+  add('watchdog_snapshot_age_seconds', 'Age of the latest health snapshot', {}, Math.max(0, (now - snapshot.timestamp.getTime()) / 1000));
+  add('watchdog_snapshot_stale', 'Whether the latest health snapshot was stale', {}, snapshot.stale ? 1 : 0);
+  add('watchdog_snapshot_unknown_nodes', 'Nodes in the latest health data that are not in the config', {}, snapshot.unknownNodes?.length ?? 0);
+
+  for (const node of snapshot.nodes) {
+    for (const l of node.layers) {
+      const labels = { node: node.name, ip: node.ip, layer: l.layer };
+      add('watchdog_node_ordinal', 'Latest snapshot ordinal reported by the node', labels, l.ordinal);
+      add('watchdog_node_reachable', 'Whether the node layer was reachable', labels, l.reachable ? 1 : 0);
+      add('watchdog_node_cluster_size', 'Cluster size seen by the node', labels, l.clusterSize);
+      add('watchdog_node_state', 'Node layer state (1 for the current state)', { ...labels, state: l.state }, 1);
+    }
+  }
+  return out;
+}
+
+/**
+ * Render all metrics in the Prometheus text exposition format.
+ */
+export function renderMetrics(restartState: RestartMetricsState, now = Date.now()): string {
+  const lines: string[] = [];
+
+  const restartFamilies = new Map<string, MetricFamily>([
+    ['watchdog_consecutive_restart_failures', {
+      help: 'Consecutive failed restarts', type: 'gauge',
+      samples: new Map([['', { labels: {}, value: restartState.consecutiveFailures }]]),
+    }],
+    ['watchdog_restarts_suspended', {
+      help: 'Whether automatic restarts are suspended after repeated failures', type: 'gauge',
+      samples: new Map([['', { labels: {}, value: restartState.suspended ? 1 : 0 }]]),
+    }],
+  ]);
+
+  for (const [name, f] of restartFamilies) renderFamily(lines, name, f);
+  for (const [name, f] of families) renderFamily(lines, name, f);
+  if (latestSnapshot) {
+    for (const [name, f] of snapshotFamilies(latestSnapshot, now)) renderFamily(lines, name, f);
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,184 @@
+/**
+ * Pre-Restart Source Cross-Check Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { compareWithProbe, createSourceCrossChecker, type CrossCheckProbe } from './cross-check.js';
+import {
+  executeRestart,
+  configureSourceCrossChecker,
+  getConsecutiveFailures,
+  getRestartHistory,
+  resetRestartState,
+} from './orchestrator.js';
+import type { Config } from '../config.js';
+import type { DetectionResult, HealthSnapshot, LayerHealth, NodeHealth } from '../types.js';
+
+vi.mock('../services/ssh.js', () => ({
+  sshExec: vi.fn().mockResolvedValue({ stdout: '', stderr: '', code: 0 }),
+  dockerControl: vi.fn().mockResolvedValue(undefined),
+  killLayerProcess: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock('../services/node-api.js', () => ({
+  getNodeInfo: vi.fn().mockResolvedValue({ state: 'Ready', id: 'peer-1', host: '10.0.0.1', publicPort: 9400, p2pPort: 9401 }),
+  getClusterInfo: vi.fn().mockResolvedValue([]),
+  checkNodeHealth: vi.fn(),
+}));
+
+vi.mock('../utils/sleep.js', () => ({
+  sleep: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock('../logger.js', () => ({
+  log: vi.fn(),
+}));
+
+function makeConfig(): Config {
+  return {
+    nodes: [
+      { ip: '10.0.0.1', name: 'node1' },
+      { ip: '10.0.0.2', name: 'node2' },
+      { ip: '10.0.0.3', name: 'node3' },
+    ],
+    ports: { gl0: 9000, ml0: 9200, cl1: 9300, dl1: 9400 },
+    cliPorts: { gl0: 9002, ml0: 9202, cl1: 9302, dl1: 9402 },
+    p2pPorts: { gl0: 9001, ml0: 9201, cl1: 9301, dl1: 9401 },
+    restartCooldownMinutes: 0,
+    maxRestartsPerHour: 100,
+    maxConsecutiveFailures: 3,
+    managedLayers: ['gl0', 'ml0', 'dl1'],
+    crossCheck: { enabled: true, ordinalTolerance: 10 },
+  } as Config;
+}
+
+const unreachable: LayerHealth = { layer: 'dl1', state: 'Unreachable', ordinal: -1, reachable: false, clusterSize: 0 };
+
+/** Redis says node3's DL1 is down; node2's data came from direct polling */
+function snapshot(): HealthSnapshot {
+  const ready: LayerHealth = { layer: 'dl1', state: 'Ready', ordinal: 100, reachable: true, clusterSize: 3 };
+  return {
+    timestamp: new Date(),
+    stale: false,
+    source: 'mixed',
+    nodes: [
+      { ip: '10.0.0.1', name: 'node1', source: 'redis', layers: [ready] },
+      { ip: '10.0.0.2', name: 'node2', source: 'direct', layers: [unreachable] },
+      { ip: '10.0.0.3', name: 'node3', source: 'redis', layers: [unreachable] },
+    ],
+  };
+}
+
+const probed = (ip: string, overrides: Partial<NodeHealth> = {}): NodeHealth => ({
+  nodeIp: ip, layer: 'dl1', reachable: true, state: 'Ready', ordinal: 104,
+  cluster: [{ id: 'peer-1', state: 'Ready' }, { id: 'peer-2', state: 'Ready' }, { id: 'peer-3', state: 'Ready' }],
+  ...overrides,
+});
+
+const unhealthy: DetectionResult = {
+  detected: true,
+  condition: 'UnhealthyNodes',
+  details: 'DL1 10.0.0.2, 10.0.0.3 unreachable',
+  restartScope: 'individual-node',
+  affectedLayers: ['dl1'],
+  affectedNodes: ['10.0.0.2', '10.0.0.3'],
+};
+
+describe('compareWithProbe()', () => {
+  it('tolerates small ordinal drift but not state or reachability changes', () => {
+    const reported: LayerHealth = { layer: 'dl1', state: 'Ready', ordinal: 100, reachable: true, clusterSize: 3 };
+    expect(compareWithProbe(reported, probed('10.0.0.1'), 10)).toEqual([]);
+    expect(compareWithProbe(reported, probed('10.0.0.1', { ordinal: 150 }), 10)).toEqual(['ordinal: 100 vs 150']);
+    expect(compareWithProbe(reported, probed('10.0.0.1', { state: 'Observing' }), 10)).toEqual(['state: Ready vs Observing']);
+    expect(compareWithProbe(unreachable, probed('10.0.0.1'), 10)).toEqual(['reachable: false vs true']);
+  });
+
+  it('compares cluster peers when the snapshot lists them, else cluster size', () => {
+    const reported: LayerHealth = { layer: 'dl1', state: 'Ready', ordinal: 100, reachable: true, clusterSize: 3, clusterHash: 'not-ours' };
+    expect(compareWithProbe(reported, probed('10.0.0.1'), 10)).toEqual([]);
+    expect(compareWithProbe({ ...reported, clusterSize: 4 }, probed('10.0.0.1'), 10)).toEqual(['cluster size: 4 vs 3']);
+    expect(compareWithProbe({ ...reported, clusterPeers: ['peer-3', 'peer-2', 'peer-1'] }, probed('10.0.0.1'), 10)).toEqual([]);
+    expect(compareWithProbe({ ...reported, clusterPeers: ['peer-1', 'peer-2', 'peer-4'] }, probed('10.0.0.1'), 10))
+      .toEqual(['cluster members differ']);
+  });
+
+  it('compares only reachability when neither side reached the node', () => {
+    const offline: LayerHealth = { ...unreachable, state: 'Offline' };
+    expect(compareWithProbe(offline, probed('10.0.0.1', { reachable: false, state: 'Unreachable', ordinal: -1 }), 10)).toEqual([]);
+  });
+});
+
+describe('createSourceCrossChecker()', () => {
+  it('probes only the affected node layers whose data came from Redis', async () => {
+    const probe = vi.fn<CrossCheckProbe>(async ip => probed(ip));
+    const check = await createSourceCrossChecker(makeConfig(), probe)(unhealthy, snapshot());
+
+    expect(probe).toHaveBeenCalledTimes(1);
+    expect(probe).toHaveBeenCalledWith('10.0.0.3', 'dl1', 9400);
+    expect(check?.detection).toMatchObject({ detected: true, condition: 'HealthSourceDisagreement' });
+    expect(check?.check).toEqual({
+      agreed: false,
+      comparisons: [{
+        node: '10.0.0.3',
+        layer: 'dl1',
+        source: 'redis',
+        reported: { reachable: false, state: 'Unreachable', ordinal: -1 },
+        probed: { reachable: true, state: 'Ready', ordinal: 104 },
+        mismatches: ['reachable: false vs true'],
+      }],
+    });
+  });
+
+  it('has nothing to check when no affected data came from Redis', async () => {
+    const probe = vi.fn<CrossCheckProbe>();
+    const check = await createSourceCrossChecker(makeConfig(), probe)({ ...unhealthy, affectedNodes: ['10.0.0.2'] }, snapshot());
+    expect(check).toBeNull();
+
+    // A layer Redis never reported was filled in as Missing by the reader
+    const missing = snapshot();
+    missing.nodes[2].layers = [{ ...unreachable, state: 'Missing' }];
+    expect(await createSourceCrossChecker(makeConfig(), probe)(unhealthy, missing)).toBeNull();
+    expect(probe).not.toHaveBeenCalled();
+  });
+});
+
+describe('executeRestart() with source cross-check', () => {
+  beforeEach(() => {
+    resetRestartState();
+  });
+
+  afterEach(() => {
+    configureSourceCrossChecker(null);
+  });
+
+  it('aborts the restart and raises HealthSourceDisagreement when sources disagree', async () => {
+    const config = makeConfig();
+    configureSourceCrossChecker(createSourceCrossChecker(config, async ip => probed(ip)));
+
+    const outcome = await executeRestart(config, unhealthy, { snapshot: snapshot() });
+
+    expect(outcome.success).toBe(false);
+    expect(outcome.error).toBe('Health sources disagree — restart aborted');
+    expect(outcome.event?.crossCheck?.agreed).toBe(false);
+    expect(outcome.crossCheckResult).toMatchObject({
+      detected: true,
+      condition: 'HealthSourceDisagreement',
+      restartScope: 'none',
+      affectedNodes: ['10.0.0.3'],
+      affectedLayers: ['dl1'],
+    });
+    expect(getRestartHistory()).toEqual([]);
+    expect(getConsecutiveFailures()).toBe(0);
+  });
+
+  it('restarts when the probes confirm the snapshot', async () => {
+    const config = makeConfig();
+    configureSourceCrossChecker(createSourceCrossChecker(config, async ip => probed(ip, { reachable: false, state: 'Unreachable', ordinal: -1 })));
+
+    const outcome = await executeRestart(config, unhealthy, { snapshot: snapshot() });
+
+    expect(outcome.crossCheckResult).toEqual({ detected: false, condition: 'HealthSourceDisagreement', details: '', restartScope: 'none' });
+    expect(outcome.event?.crossCheck?.agreed).toBe(true);
+    expect(getRestartHistory()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Pre-Restart Source Cross-Check
+ *
+ * A services monitor that hangs but keeps refreshing its timestamp, or that
+ * writes wrong data, would otherwise be trusted completely. Before a
+ * restart runs, the affected nodes and layers whose data came from Redis are
+ * probed directly and compared with the snapshot:
+ *
+ * - reachable must match
+ * - when both sides reached the node: state must match, ordinals must be
+ *   within `crossCheck.ordinalTolerance`, and the cluster must match — by
+ *   peer ids when the snapshot lists them, else by size. The snapshot's
+ *   cluster hash is not used: the services monitor computes it, and nothing
+ *   guarantees it hashes peer sets the way the watchdog does.
+ *
+ * Any disagreement aborts the restart and raises a HealthSourceDisagreement
+ * detection instead.
+ */
+
+import type { Config, NodeConfig } from '../config.js';
+import { nodePort } from '../config.js';
+import type {
+  DetectionResult,
+  HealthSnapshot,
+  Layer,
+  LayerHealth,
+  NodeHealth,
+  SourceComparison,
+  SourceCrossCheck,
+} from '../types.js';
+import { MISSING_STATE } from '../types.js';
+import { checkNodeHealth } from '../services/node-api.js';
+
+const DEFAULT_ORDINAL_TOLERANCE = 10;
+
+/** A finished cross-check, ready for the orchestrator to report and act on */
+export interface CrossCheckOutcome {
+  check: SourceCrossCheck;
+  /** One line per compared node layer */
+  lines: string[];
+  /** HealthSourceDisagreement result — detected when the sources disagree */
+  detection: DetectionResult;
+}
+
+/** Cross-checks the snapshot a detection was made from — null when there is nothing to check */
+export type SourceCrossChecker = (result: DetectionResult, snapshot: HealthSnapshot) => Promise<CrossCheckOutcome | null>;
+
+export type CrossCheckProbe = (ip: string, layer: Layer, port: number) => Promise<NodeHealth>;
+
+/**
+ * What differs between the snapshot and a direct probe of the same node/layer.
+ * State, ordinal and cluster are only compared when both sides reached the
+ * node — an unreachable layer's state is just a label for how it failed
+ * (`Offline`, `Unreachable`, ...), not something the sources can disagree on.
+ */
+export function compareWithProbe(reported: LayerHealth, probed: NodeHealth, ordinalTolerance: number): string[] {
+  if (reported.reachable !== probed.reachable) {
+    return [`reachable: ${reported.reachable} vs ${probed.reachable}`];
+  }
+  if (!reported.reachable) return [];
+
+  const mismatches: string[] = [];
+  if (reported.state !== probed.state) {
+    mismatches.push(`state: ${reported.state} vs ${probed.state}`);
+  }
+  if (reported.ordinal >= 0 && probed.ordinal >= 0 && Math.abs(reported.ordinal - probed.ordinal) > ordinalTolerance) {
+    mismatches.push(`ordinal: ${reported.ordinal} vs ${probed.ordinal}`);
+  }
+  // A failed /cluster/info probe leaves nothing to compare the cluster with
+  if (probed.error?.endpoint === '/cluster/info') return mismatches;
+  if (reported.clusterPeers) {
+    const peers = (ids: string[]) => [...new Set(ids)].sort().join(',');
+    if (peers(reported.clusterPeers) !== peers(probed.cluster.map(m => m.id))) mismatches.push('cluster members differ');
+  } else if (reported.clusterSize > 0 && reported.clusterSize !== probed.cluster.length) {
+    mismatches.push(`cluster size: ${reported.clusterSize} vs ${probed.cluster.length}`);
+  }
+  return mismatches;
+}
+
+export function createSourceCrossChecker(config: Config, probe: CrossCheckProbe = checkNodeHealth): SourceCrossChecker {
+  const tolerance = config.crossCheck?.ordinalTolerance ?? DEFAULT_ORDINAL_TOLERANCE;
+
+  return async (result, snapshot) => {
+    const affected = new Set(result.affectedNodes ?? []);
+    const targets: Array<{ node: NodeConfig; layer: Layer; reported: LayerHealth }> = [];
+
+    for (const data of snapshot.nodes) {
+      if ((data.source ?? snapshot.source) !== 'redis') continue;
+      if (affected.size > 0 && !affected.has(data.ip)) continue;
+      const node = config.nodes.find(n => n.ip === data.ip);
+      if (!node) continue;
+
+      for (const layer of result.affectedLayers ?? []) {
+        // Layers Redis never reported were filled in by the reader — nothing to compare
+        const reported = data.layers.find(l => l.layer === layer);
+        if (reported && reported.state !== MISSING_STATE) targets.push({ node, layer, reported });
+      }
+    }
+    if (targets.length === 0) return null;
+
+    const comparisons = await Promise.all(targets.map(async ({ node, layer, reported }): Promise<SourceComparison> => {
+      const probed = await probe(node.ip, layer, nodePort(config, node, layer));
+      return {
+        node: node.ip,
+        layer,
+        source: 'redis',
+        reported: { reachable: reported.reachable, state: reported.state, ordinal: reported.ordinal },
+        probed: {
+          reachable: probed.reachable,
+          state: probed.state,
+          ordinal: probed.ordinal,
+          ...(probed.error ? { error: probed.error.message } : {}),
+        },
+        mismatches: compareWithProbe(reported, probed, tolerance),
+      };
+    }));
+
+    const check = { agreed: comparisons.every(c => c.mismatches.length === 0), comparisons };
+    return {
+      check,
+      lines: comparisons.map(c => `${c.mismatches.length === 0 ? '✓' : '✗'} ${describeComparison(c)}`),
+      detection: sourceDisagreementDetection(result, check),
+    };
+  };
+}
+
+/** One line per comparison, for logs and restart progress */
+export function describeComparison(c: SourceComparison): string {
+  return c.mismatches.length === 0
+    ? `${c.layer} on ${c.node}: ${c.source} and direct probe agree (${c.probed.state}, ordinal ${c.probed.ordinal})`
+    : `${c.layer} on ${c.node}: ${c.mismatches.join('; ')} (${c.source} vs direct probe)`;
+}
+
+/**
+ * Detection raised instead of a restart when the sources disagree.
+ * Detection only — the cached data, not the cluster, is what is wrong.
+ */
+export function sourceDisagreementDetection(result: DetectionResult, check: SourceCrossCheck): DetectionResult {
+  if (check.agreed) {
+    return { detected: false, condition: 'HealthSourceDisagreement', details: '', restartScope: 'none' };
+  }
+
+  const disagreeing = check.comparisons.filter(c => c.mismatches.length > 0);
+  return {
+    detected: true,
+    condition: 'HealthSourceDisagreement',
+    details: `Redis health data disagrees with direct probes — ${result.condition} restart aborted: ${disagreeing.map(describeComparison).join(', ')}`,
+    restartScope: 'none',
+    affectedNodes: [...new Set(disagreeing.map(c => c.node))],
+    affectedLayers: [...new Set(disagreeing.map(c => c.layer))],
+  };
+}
@@ -0,0 +1,136 @@
+/**
+ * Escalation Ladder Tests
+ */
+
+import { describe, it, expect, vi, afterAll } from 'vitest';
+import { escalationRung } from './escalation.js';
+import {
+  executeRestart,
+  configureRestartVerifier,
+  isRestartSuspended,
+  resetRestartState,
+} from './orchestrator.js';
+import type { Config } from '../config.js';
+import type { DetectionResult, RestartEvent, RestartScope } from '../types.js';
+
+vi.mock('../services/ssh.js', () => ({
+  sshExec: vi.fn().mockResolvedValue({ stdout: '', stderr: '', code: 0 }),
+  dockerControl: vi.fn().mockResolvedValue(undefined),
+  killLayerProcess: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock('../services/node-api.js', () => ({
+  getNodeInfo: vi.fn().mockResolvedValue({ state: 'Ready', id: 'peer-1', host: '10.0.0.1', publicPort: 9400, p2pPort: 9401 }),
+}));
+
+vi.mock('../utils/sleep.js', () => ({
+  sleep: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock('../logger.js', () => ({
+  log: vi.fn(),
+}));
+
+const NOW = Date.parse('2026-01-01T12:00:00Z');
+
+const lagging: DetectionResult = {
+  detected: true,
+  condition: 'OrdinalLag',
+  details: 'DL1 10.0.0.3 lagging',
+  restartScope: 'individual-node',
+  affectedLayers: ['dl1'],
+  affectedNodes: ['10.0.0.3'],
+};
+
+function event(scope: RestartScope, success: boolean, minutesAgo: number, overrides: Partial<RestartEvent> = {}): RestartEvent {
+  return {
+    timestamp: new Date(NOW - minutesAgo * 60_000).toISOString(),
+    scope,
+    condition: 'OrdinalLag',
+    layers: ['dl1'],
+    nodes: ['10.0.0.3'],
+    success,
+    ...(success ? {} : { error: 'Verification failed — ordinals' }),
+    ...overrides,
+  };
+}
+
+describe('escalationRung()', () => {
+  it('starts at the detection scope without failed attempts', () => {
+    expect(escalationRung(lagging, [], 60, NOW)).toEqual({ rung: 'individual-node', escalated: false, notes: [] });
+    expect(escalationRung(lagging, [event('individual-node', true, 5)], 60, NOW).rung).toBe('individual-node');
+  });
+
+  it('moves up one rung after a failed attempt within the window', () => {
+    const escalation = escalationRung(lagging, [event('individual-node', false, 5)], 60, NOW);
+    expect(escalation.rung).toBe('full-layer');
+    expect(escalation.escalated).toBe(true);
+    expect(escalation.notes).toEqual([
+      'OrdinalLag on dl1: individual-node restart failed 5m ago (Verification failed — ordinals) → full-layer',
+    ]);
+
+    expect(escalationRung(lagging, [event('full-layer', false, 5)], 60, NOW).rung).toBe('full-metagraph');
+    expect(escalationRung(lagging, [event('full-metagraph', false, 5)], 60, NOW).rung).toBe('suspend');
+  });
+
+  it('ignores failures outside the window, on other layers or conditions, and dry runs', () => {
+    expect(escalationRung(lagging, [event('individual-node', false, 90)], 60, NOW).rung).toBe('individual-node');
+    expect(escalationRung(lagging, [
+      event('individual-node', false, 5, { layers: ['gl0'] }),
+      event('individual-node', false, 4, { condition: 'ForkedCluster' }),
+      event('individual-node', false, 3, { dryRun: true }),
+    ], 60, NOW).rung).toBe('individual-node');
+  });
+
+  it('never lowers a detection that already starts higher', () => {
+    const forked = { ...lagging, condition: 'ForkedCluster', restartScope: 'full-layer' as const };
+    expect(escalationRung(forked, [event('individual-node', false, 5, { condition: 'ForkedCluster' })], 60, NOW))
+      .toEqual({ rung: 'full-layer', escalated: false, notes: [] });
+  });
+
+  it('tracks every condition of a merged detection', () => {
+    const merged = { ...lagging, mergedConditions: ['UnhealthyNodes', 'OrdinalLag'] };
+    expect(escalationRung(merged, [event('full-layer', false, 5)], 60, NOW).rung).toBe('full-metagraph');
+  });
+});
+
+describe('executeRestart() escalation', () => {
+  afterAll(() => {
+    configureRestartVerifier(null);
+  });
+
+  it('climbs the ladder on failed verification and finally suspends', async () => {
+    const config = {
+      nodes: [
+        { ip: '10.0.0.1', name: 'node1' },
+        { ip: '10.0.0.2', name: 'node2' },
+        { ip: '10.0.0.3', name: 'node3' },
+      ],
+      ports: { gl0: 9000, ml0: 9200, cl1: 9300, dl1: 9400 },
+      cliPorts: { gl0: 9002, ml0: 9202, cl1: 9302, dl1: 9402 },
+      p2pPorts: { gl0: 9001, ml0: 9201, cl1: 9301, dl1: 9401 },
+      restartCooldownMinutes: 0,
+      maxRestartsPerHour: 100,
+      maxConsecutiveFailures: 10,
+      managedLayers: ['gl0', 'ml0', 'dl1'],
+    } as Config;
+    resetRestartState();
+    configureRestartVerifier(async () => ({ passed: false, reason: 'ordinals: stuck', checks: [] }));
+
+    const scopes: (RestartScope | undefined)[] = [];
+    for (let i = 0; i < 3; i++) {
+      scopes.push((await executeRestart(config, lagging)).event?.scope);
+    }
+    expect(scopes).toEqual(['individual-node', 'full-layer', 'full-metagraph']);
+
+    const outcome = await executeRestart(config, lagging);
+    expect(outcome.event).toBeUndefined();
+    expect(outcome.error).toContain('Escalation ladder exhausted for OrdinalLag');
+    expect(isRestartSuspended()).toBe(true);
+
+    // Manual restarts bypass the ladder and run at the requested scope
+    const manual = await executeRestart(config, lagging, { manual: true });
+    expect(manual.event?.scope).toBe('individual-node');
+    expect(manual.event?.escalatedFrom).toBeUndefined();
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Escalation Ladder
+ *
+ * Every condition climbs the same ladder, tracked per condition and layer:
+ *
+ *   individual-node → full-layer → full-metagraph → suspend
+ *
+ * A detection starts at its own scope (the condition's minimum rung) and
+ * moves up one rung only if the last restart for the same condition and
+ * layer failed — including a failed post-restart verification — within the
+ * escalation window. A successful restart, or one outside the window, puts
+ * the condition back on its minimum rung. Once full-metagraph has failed,
+ * automatic restarts are suspended.
+ *
+ * The ladder is derived from restart history, so it survives watchdog
+ * restarts along with the rest of the persisted restart state.
+ */
+
+import type { DetectionResult, Layer, RestartEvent, RestartScope } from '../types.js';
+import { SCOPE_RANK } from '../types.js';
+
+export const DEFAULT_ESCALATION_WINDOW_MINUTES = 60;
+
+/** Restart rungs in climbing order */
+export const ESCALATION_LADDER: RestartScope[] = ['individual-node', 'full-layer', 'full-metagraph'];
+
+export type EscalationRung = RestartScope | 'suspend';
+
+export interface Escalation {
+  /** Scope to restart at, or 'suspend' when the ladder is exhausted */
+  rung: EscalationRung;
+  /** Whether the rung is above the detection's own scope */
+  escalated: boolean;
+  /** One line per condition/layer that moved up a rung */
+  notes: string[];
+}
+
+function rungAbove(scope: RestartScope): EscalationRung {
+  const next = ESCALATION_LADDER[ESCALATION_LADDER.indexOf(scope) + 1];
+  return next ?? 'suspend';
+}
+
+function rungRank(rung: EscalationRung): number {
+  return rung === 'suspend' ? ESCALATION_LADDER.length + 1 : SCOPE_RANK[rung];
+}
+
+/** Last live restart for a condition on a layer, if it started within the window */
+function lastAttempt(
+  history: RestartEvent[],
+  condition: string,
+  layer: Layer,
+  cutoff: number,
+): RestartEvent | undefined {
+  for (let i = history.length - 1; i >= 0; i--) {
+    const event = history[i];
+    if (new Date(event.timestamp).getTime() < cutoff) return undefined;
+    if (event.dryRun) continue;
+    if ((event.conditions ?? [event.condition]).includes(condition) && event.layers.includes(layer)) return event;
+  }
+  return undefined;
+}
+
+/**
+ * Rung a detection should restart at, given the restart history.
+ */
+export function escalationRung(
+  result: DetectionResult,
+  history: RestartEvent[],
+  windowMinutes = DEFAULT_ESCALATION_WINDOW_MINUTES,
+  now = Date.now(),
+): Escalation {
+  const cutoff = now - windowMinutes * 60_000;
+  let rung: EscalationRung = result.restartScope;
+  const notes: string[] = [];
+
+  for (const condition of result.mergedConditions ?? [result.condition]) {
+    for (const layer of result.affectedLayers ?? []) {
+      const last = lastAttempt(history, condition, layer, cutoff);
+      if (!last || last.success) continue;
+
+      const next = rungAbove(last.scope);
+      if (rungRank(next) <= SCOPE_RANK[result.restartScope]) continue;
+
+      const ago = ((now - new Date(last.timestamp).getTime()) / 60_000).toFixed(0);
+      notes.push(`${condition} on ${layer}: ${last.scope} restart failed ${ago}m ago (${last.error ?? 'unknown error'}) → ${next}`);
+      if (rungRank(next) > rungRank(rung)) rung = next;
+    }
+  }
+
+  return { rung, escalated: rung !== result.restartScope, notes };
+}
@@ -0,0 +1,190 @@
+/**
+ * Restart Executor Tests
+ *
+ * Dry-run mode: the orchestrator walks the real strategy but every side
+ * effect is recorded as a planned action. SSH must never be called.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createDryRunExecutor, buildJoinCommand, buildWipeCommand } from './executor.js';
+import { executeRestart, resetRestartState } from './orchestrator.js';
+import type { Config } from '../config.js';
+
+vi.mock('../services/ssh.js', () => ({
+  sshExec: vi.fn(() => { throw new Error('sshExec called in dry-run'); }),
+  dockerControl: vi.fn(() => { throw new Error('dockerControl called in dry-run'); }),
+  killLayerProcess: vi.fn(() => { throw new Error('killLayerProcess called in dry-run'); }),
+  shellEscape: (s: string) => s,
+}));
+
+vi.mock('../services/node-api.js', () => ({
+  getNodeInfo: vi.fn(),
+}));
+
+vi.mock('../logger.js', () => ({
+  log: vi.fn(),
+}));
+
+import { getNodeInfo } from '../services/node-api.js';
+import { sshExec, dockerControl, killLayerProcess } from '../services/ssh.js';
+
+const mockNodeInfo = vi.mocked(getNodeInfo);
+
+function makeConfig(): Config {
+  return {
+    nodes: [
+      { ip: '10.0.0.1', name: 'node1', privateIp: '192.168.0.1' },
+      { ip: '10.0.0.2', name: 'node2', privateIp: '192.168.0.2' },
+      { ip: '10.0.0.3', name: 'node3', privateIp: '192.168.0.3' },
+    ],
+    ports: { gl0: 9000, ml0: 9200, cl1: 9300, dl1: 9400 },
+    cliPorts: { gl0: 9002, ml0: 9202, cl1: 9302, dl1: 9402 },
+    p2pPorts: { gl0: 9001, ml0: 9201, cl1: 9301, dl1: 9401 },
+    restartCooldownMinutes: 0,
+    maxRestartsPerHour: 100,
+    maxConsecutiveFailures: 3,
+    managedLayers: ['gl0', 'ml0', 'dl1'],
+    dryRun: true,
+  } as Config;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  resetRestartState();
+});
+
+describe('buildJoinCommand()', () => {
+  it('posts the reference peer to the CLI port inside the container', () => {
+    const cmd = buildJoinCommand({
+      nodeIp: '10.0.0.2', layer: 'dl1', container: 'dl1', cliPort: 9402,
+      referenceId: 'abc', referenceIp: '192.168.0.1', p2pPort: 9401,
+    });
+    expect(cmd).toContain('docker exec dl1 curl -sf -X POST http://127.0.0.1:9402/cluster/join');
+    expect(cmd).toContain('"id":"abc","ip":"192.168.0.1","p2pPort":9401');
+  });
+});
+
+describe('buildWipeCommand()', () => {
+  it('empties the data directory but keeps it', () => {
+    expect(buildWipeCommand('/opt/ottochain/dl1-data/')).toBe('rm -rf /opt/ottochain/dl1-data/*');
+    expect(buildWipeCommand('/opt/ottochain/../ottochain/dl1-data')).toBe('rm -rf /opt/ottochain/dl1-data/*');
+  });
+
+  it('refuses to wipe the filesystem root', () => {
+    expect(() => buildWipeCommand('/opt/..')).toThrow('Refusing to wipe /opt/..');
+  });
+});
+
+describe('createDryRunExecutor()', () => {
+  it('records actions with sequential steps and never waits', async () => {
+    const exec = createDryRunExecutor();
+    await exec.killLayerProcess('10.0.0.1', 'dl1', makeConfig());
+    await exec.dockerControl('10.0.0.1', 'start', 'dl1', makeConfig());
+    expect(await exec.waitForReady('10.0.0.1', 9400, 180_000, 'dl1')).toBe(true);
+    expect(await exec.isRestartedNodeReady('10.0.0.1', 9400)).toBe(false);
+
+    expect(exec.plannedActions.map(a => [a.step, a.type])).toEqual([
+      [1, 'kill'],
+      [2, 'docker'],
+      [3, 'wait-ready'],
+    ]);
+    expect(exec.plannedActions[2].timeoutMs).toBe(180_000);
+  });
+
+  it('uses a placeholder peer id when a restarted node is not reachable', async () => {
+    mockNodeInfo.mockResolvedValue(null);
+    const info = await createDryRunExecutor().getRestartedNodeInfo('10.0.0.1', 9400);
+    expect(info?.id).toBe('<peer id of 10.0.0.1:9400>');
+  });
+});
+
+describe('executeRestart() in dry-run mode', () => {
+  it('plans a full-layer restart without touching any container', async () => {
+    mockNodeInfo.mockResolvedValue({ state: 'Ready', id: 'peer-1', host: '10.0.0.1', publicPort: 9400, p2pPort: 9401 });
+
+    const outcome = await executeRestart(makeConfig(), {
+      detected: true,
+      condition: 'ForkedCluster',
+      details: 'DL1 forked',
+      restartScope: 'full-layer',
+      affectedLayers: ['dl1'],
+      affectedNodes: ['10.0.0.3'],
+    });
+
+    expect(sshExec).not.toHaveBeenCalled();
+    expect(dockerControl).not.toHaveBeenCalled();
+    expect(killLayerProcess).not.toHaveBeenCalled();
+
+    expect(outcome.success).toBe(true);
+    expect(outcome.event?.dryRun).toBe(true);
+
+    const actions = outcome.event?.plannedActions ?? [];
+    expect(actions.filter(a => a.type === 'kill')).toHaveLength(3);
+    expect(actions.filter(a => a.type === 'join').map(a => a.node)).toEqual(['10.0.0.2', '10.0.0.3']);
+    expect(actions.find(a => a.type === 'join')?.reference).toEqual({ id: 'peer-1', ip: '192.168.0.1', p2pPort: 9401 });
+    expect(actions.map(a => a.step)).toEqual(actions.map((_, i) => i + 1));
+  });
+
+  it('heals a fork by rejoining only the minority to a majority peer', async () => {
+    mockNodeInfo.mockResolvedValue({ state: 'Ready', id: 'peer-2', host: '10.0.0.2', publicPort: 9400, p2pPort: 9401 });
+    const config = { ...makeConfig(), forkHealing: { wipeData: true, dataDir: '/opt/ottochain/{layer}-data' } };
+
+    const outcome = await executeRestart(config, {
+      detected: true,
+      condition: 'ForkedCluster',
+      details: 'DL1 forked',
+      restartScope: 'individual-node',
+      affectedLayers: ['dl1'],
+      affectedNodes: ['10.0.0.3'],
+      fork: { layer: 'dl1', majorityNodes: ['10.0.0.2', '10.0.0.1'], minorityNodes: ['10.0.0.3'] },
+    });
+
+    const actions = outcome.event?.plannedActions ?? [];
+    expect(actions.map(a => `${a.type} ${a.node}`)).toEqual([
+      'kill 10.0.0.3',
+      'ssh 10.0.0.3',
+      'docker 10.0.0.3',
+      'join 10.0.0.3',
+      'wait-ready 10.0.0.3',
+    ]);
+    expect(actions[1].command).toBe('rm -rf /opt/ottochain/dl1-data/*');
+    expect(actions[3].reference).toEqual({ id: 'peer-2', ip: '192.168.0.2', p2pPort: 9401 });
+  });
+
+  it('does not count planned restarts toward the rate limit or cooldown', async () => {
+    mockNodeInfo.mockResolvedValue({ state: 'Ready', id: 'peer-1', host: '10.0.0.1', publicPort: 9400, p2pPort: 9401 });
+    const config = { ...makeConfig(), restartCooldownMinutes: 10, maxRestartsPerHour: 1 };
+    const detection = {
+      detected: true,
+      condition: 'UnhealthyNodes',
+      details: 'DL1 down',
+      restartScope: 'full-layer' as const,
+      affectedLayers: ['dl1' as const],
+    };
+
+    expect((await executeRestart(config, detection)).event?.dryRun).toBe(true);
+    const second = await executeRestart(config, detection);
+    expect(second.error).toBeUndefined();
+    expect(second.event?.plannedActions?.length).toBeGreaterThan(0);
+  });
+
+  it('falls back to a full-layer restart when no majority peer is Ready', async () => {
+    mockNodeInfo.mockImplementation(async ip => ip === '10.0.0.1'
+      ? { state: 'Ready', id: 'peer-1', host: ip, publicPort: 9400, p2pPort: 9401 }
+      : { state: 'Observing', id: 'peer-2', host: ip, publicPort: 9400, p2pPort: 9401 });
+
+    const outcome = await executeRestart(makeConfig(), {
+      detected: true,
+      condition: 'ForkedCluster',
+      details: 'DL1 forked',
+      restartScope: 'individual-node',
+      affectedLayers: ['dl1'],
+      affectedNodes: ['10.0.0.3'],
+      fork: { layer: 'dl1', majorityNodes: ['10.0.0.2'], minorityNodes: ['10.0.0.3'] },
+    });
+
+    const actions = outcome.event?.plannedActions ?? [];
+    expect(actions.filter(a => a.type === 'kill')).toHaveLength(3);
+    expect(actions.some(a => a.type === 'ssh')).toBe(false);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Restart Executor
+ *
+ * The side-effecting operations the restart strategies perform. The live
+ * executor runs them over SSH; the dry-run executor records each one as a
+ * planned action instead, so the orchestrator can walk exactly the same
+ * strategy without touching any container.
+ *
+ * Read-only node API calls (reference lookups) still hit the network in
+ * dry-run mode. Probes of nodes the restart itself would have started are
+ * answered with "not ready yet", so the plan includes the joins and waits
+ * a real restart would fall back to.
+ */
+
+import { posix } from 'path';
+import type { Config } from '../config.js';
+import type { Layer, NodeInfo, PlannedAction } from '../types.js';
+import { killLayerProcess, dockerControl, sshExec, shellEscape } from '../services/ssh.js';
+import { getNodeInfo } from '../services/node-api.js';
+import { sleep } from '../utils/sleep.js';
+import { log } from '../logger.js';
+
+/** Parameters for a cluster join issued through the node's CLI port */
+export interface JoinParams {
+  nodeIp: string;
+  layer: Layer;
+  container: string;
+  cliPort: number;
+  referenceId: string;
+  referenceIp: string;
+  p2pPort: number;
+}
+
+export interface RestartExecutor {
+  readonly dryRun: boolean;
+  /** Actions recorded so far (always empty for the live executor) */
+  readonly plannedActions: PlannedAction[];
+
+  /** Log a restart step and forward it to the progress listener, if any */
+  report(message: string): void;
+
+  sshExec(ip: string, command: string, config: Config, timeoutMs?: number): Promise<{ stdout: string; stderr: string; code: number }>;
+  dockerControl(ip: string, action: 'stop' | 'start' | 'restart', container: string, config: Config): Promise<void>;
+  killLayerProcess(ip: string, container: string, config: Config): Promise<void>;
+  joinCluster(params: JoinParams, config: Config): Promise<void>;
+  waitForReady(ip: string, port: number, timeoutMs: number, layer?: Layer): Promise<boolean>;
+
+  /** Node info for a node the restart has not touched (read-only) */
+  getNodeInfo(ip: string, port: number): Promise<NodeInfo | null>;
+  /** Node info for a node this restart started — used to find its peer id */
+  getRestartedNodeInfo(ip: string, port: number): Promise<NodeInfo | null>;
+  /** Whether a node this restart started has already come up Ready on its own */
+  isRestartedNodeReady(ip: string, port: number): Promise<boolean>;
+
+  sleep(ms: number): Promise<void>;
+}
+
+/** Build the shell command that joins a node to a reference peer. */
+export function buildJoinCommand(params: JoinParams): string {
+  return [
+    `docker exec ${params.container} curl -sf -X POST http://127.0.0.1:${params.cliPort}/cluster/join`,
+    `-H 'Content-Type: application/json'`,
+    `-d '{"id":"${params.referenceId}","ip":"${params.referenceIp}","p2pPort":${params.p2pPort}}'`,
+  ].join(' ');
+}
+
+/** Build the shell command that empties a layer data directory (the directory itself is kept). */
+export function buildWipeCommand(dataDir: string): string {
+  const dir = posix.resolve(dataDir);
+  // Config validation rejects these; never build the command regardless
+  if (!dataDir.startsWith('/') || dir === '/') throw new Error(`Refusing to wipe ${dataDir}: not a directory below /`);
+  return `rm -rf ${shellEscape(dir)}/*`;
+}
+
+/** Called with a human-readable message at each major restart step */
+export type ProgressFn = (message: string) => void;
+
+function reporter(onProgress?: ProgressFn, quiet = false): (message: string) => void {
+  return message => {
+    if (!quiet) log(`[Restart] ${message}`);
+    onProgress?.(message);
+  };
+}
+
+/**
+ * Executor that performs every action for real.
+ */
+export function createLiveExecutor(onProgress?: ProgressFn): RestartExecutor {
+  return {
+    dryRun: false,
+    plannedActions: [],
+    report: reporter(onProgress),
+    sshExec,
+    dockerControl,
+    killLayerProcess,
+    async joinCluster(params, config) {
+      await sshExec(params.nodeIp, buildJoinCommand(params), config);
+    },
+    async waitForReady(ip, port, timeoutMs) {
+      const start = Date.now();
+      while (Date.now() - start < timeoutMs) {
+        const info = await getNodeInfo(ip, port);
+        if (info?.state === 'Ready') return true;
+        await sleep(5_000);
+      }
+      return false;
+    },
+    getNodeInfo,
+    getRestartedNodeInfo: getNodeInfo,
+    async isRestartedNodeReady(ip, port) {
+      return (await getNodeInfo(ip, port))?.state === 'Ready';
+    },
+    sleep,
+  };
+}
+
+/**
+ * Executor that records every side effect as a PlannedAction.
+ *
+ * `quiet` suppresses step logging (used for plan previews, which are not restarts).
+ */
+export function createDryRunExecutor(onProgress?: ProgressFn, quiet = false): RestartExecutor {
+  const plannedActions: PlannedAction[] = [];
+  const record = (action: Omit<PlannedAction, 'step'>): void => {
+    plannedActions.push({ step: plannedActions.length + 1, ...action });
+  };
+
+  return {
+    dryRun: true,
+    plannedActions,
+    report: reporter(onProgress, quiet),
+    async sshExec(ip, command) {
+      record({ type: 'ssh', node: ip, command, description: `ssh ${ip}: ${command}` });
+      return { stdout: '', stderr: '', code: 0 };
+    },
+    async dockerControl(ip, action, container) {
+      record({ type: 'docker', node: ip, container, action, description: `docker ${action} ${container} on ${ip}` });
+    },
+    async killLayerProcess(ip, container) {
+      record({ type: 'kill', node: ip, container, description: `Stop ${container} on ${ip}` });
+    },
+    async joinCluster(params) {
+      record({
+        type: 'join',
+        node: params.nodeIp,
+        layer: params.layer,
+        container: params.container,
+        reference: { id: params.referenceId, ip: params.referenceIp, p2pPort: params.p2pPort },
+        description: `Join ${params.layer.toUpperCase()} on ${params.nodeIp} to ${params.referenceIp}:${params.p2pPort}`,
+      });
+    },
+    async waitForReady(ip, port, timeoutMs, layer) {
+      record({
+        type: 'wait-ready',
+        node: ip,
+        layer,
+        timeoutMs,
+        description: `Wait up to ${Math.round(timeoutMs / 1000)}s for ${layer ? `${layer.toUpperCase()} on ` : ''}${ip}:${port} to be Ready`,
+      });
+      return true;
+    },
+    getNodeInfo,
+    async getRestartedNodeInfo(ip, port) {
+      // The node would have just been restarted — its current info may be stale
+      // or missing. Fall back to a placeholder so the plan can continue.
+      const info = await getNodeInfo(ip, port);
+      return info ?? { state: 'Ready', id: `<peer id of ${ip}:${port}>`, host: ip, publicPort: port, p2pPort: 0 };
+    },
+    async isRestartedNodeReady() {
+      return false;
+    },
+    async sleep() {
+      // No waiting in dry-run
+    },
+  };
+}
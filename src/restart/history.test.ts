@@ -0,0 +1,113 @@
+/**
+ * Restart History Query Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseHistoryQuery, queryHistory, decodeCursor, encodeCursor } from './history.js';
+import type { RestartEvent } from '../types.js';
+
+function makeEvent(minutesAgo: number, overrides: Partial<RestartEvent> = {}): RestartEvent {
+  return {
+    timestamp: new Date(Date.UTC(2026, 0, 1, 12, 0) - minutesAgo * 60_000).toISOString(),
+    scope: 'full-layer',
+    condition: 'UnhealthyNodes',
+    layers: ['dl1'],
+    nodes: ['10.0.0.1'],
+    success: true,
+    ...overrides,
+  };
+}
+
+describe('parseHistoryQuery()', () => {
+  it('parses all filters', () => {
+    const { filter, errors } = parseHistoryQuery(new URLSearchParams(
+      'condition=ForkedCluster&scope=full-layer&layer=gl0&node=10.0.0.2&success=false&since=2026-01-01T00:00:00Z&limit=10',
+    ));
+    expect(errors).toEqual([]);
+    expect(filter).toMatchObject({
+      condition: 'ForkedCluster',
+      scope: 'full-layer',
+      layer: 'gl0',
+      node: '10.0.0.2',
+      success: false,
+      limit: 10,
+    });
+    expect(filter.since?.toISOString()).toBe('2026-01-01T00:00:00.000Z');
+  });
+
+  it('reports invalid values', () => {
+    const { errors } = parseHistoryQuery(new URLSearchParams('scope=bogus&layer=xl0&success=maybe&limit=0&until=soon&cursor=%%%'));
+    expect(errors).toHaveLength(6);
+  });
+
+  it('caps the limit', () => {
+    const { filter } = parseHistoryQuery(new URLSearchParams('limit=100000'));
+    expect(filter.limit).toBe(500);
+  });
+});
+
+describe('cursor encoding', () => {
+  it('round-trips', () => {
+    const cursor = { timestamp: '2026-01-01T00:00:00.000Z', key: 'abc' };
+    expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+  });
+
+  it('rejects garbage', () => {
+    expect(decodeCursor('not-a-cursor')).toBeNull();
+  });
+});
+
+describe('queryHistory()', () => {
+  it('returns newest first and filters', () => {
+    const memory = [
+      makeEvent(30, { condition: 'ForkedCluster', layers: ['gl0'] }),
+      makeEvent(20, { success: false }),
+      makeEvent(10),
+    ];
+    const page = queryHistory(memory, [], { limit: 50, success: true });
+    expect(page.events.map(e => e.condition)).toEqual(['UnhealthyNodes', 'ForkedCluster']);
+    expect(page.nextCursor).toBeNull();
+  });
+
+  it('deduplicates restarts present in memory and Postgres, preferring memory', () => {
+    const event = makeEvent(5, { success: false, error: 'timeout' });
+    const persisted = [{ ...event, error: undefined }, makeEvent(60 * 24)];
+    const page = queryHistory([event], persisted, { limit: 50 });
+
+    expect(page.events).toHaveLength(2);
+    expect(page.events[0]).toMatchObject({ source: 'memory', error: 'timeout' });
+    expect(page.events[1].source).toBe('postgres');
+  });
+
+  it('pages with cursors without skipping or repeating', () => {
+    const memory = Array.from({ length: 5 }, (_, i) => makeEvent(i));
+    // Two events with the same timestamp exercise the tie-breaker
+    memory.push(makeEvent(2, { condition: 'OrdinalLag' }));
+
+    const seen: string[] = [];
+    let cursor: string | null = null;
+    do {
+      const params = new URLSearchParams({ limit: '2' });
+      if (cursor) params.set('cursor', cursor);
+      const { filter } = parseHistoryQuery(params);
+      const page = queryHistory(memory, [], filter);
+      seen.push(...page.events.map(e => `${e.timestamp}|${e.condition}`));
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    expect(seen).toHaveLength(6);
+    expect(new Set(seen).size).toBe(6);
+  });
+
+  it('filters by layer, node and time range', () => {
+    const memory = [
+      makeEvent(120, { layers: ['ml0', 'dl1'] }),
+      makeEvent(60, { nodes: ['10.0.0.3'] }),
+      makeEvent(1),
+    ];
+    const until = new Date(Date.UTC(2026, 0, 1, 11, 30));
+    const page = queryHistory(memory, [], { limit: 50, layer: 'dl1', node: '10.0.0.1', until });
+    expect(page.events).toHaveLength(1);
+    expect(page.events[0].layers).toEqual(['ml0', 'dl1']);
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Restart History Queries
+ *
+ * Filtering and cursor paging over restart events for GET /api/history.
+ * Events come from the orchestrator's in-memory history and, when Postgres
+ * is available, from persisted monitoring_events rows (so history survives
+ * a watchdog restart). The two are merged and deduplicated here.
+ *
+ * Entries are ordered newest first by restart start time. Cursors are opaque
+ * base64url tokens encoding the last entry of the previous page.
+ */
+
+import type { Layer, RestartEvent, RestartScope } from '../types.js';
+import { ALL_LAYERS } from '../types.js';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+const SCOPES: RestartScope[] = ['none', 'individual-node', 'full-layer', 'full-metagraph'];
+
+export interface HistoryCursor {
+  /** Restart start time (ISO) of the last entry on the previous page */
+  timestamp: string;
+  /** Tie-breaker for entries with identical timestamps */
+  key: string;
+}
+
+export interface HistoryFilter {
+  condition?: string;
+  scope?: RestartScope;
+  layer?: Layer;
+  node?: string;
+  success?: boolean;
+  since?: Date;
+  until?: Date;
+  limit: number;
+  cursor?: HistoryCursor;
+}
+
+/** Restart event annotated with where it came from */
+export interface HistoryEntry extends RestartEvent {
+  source: 'memory' | 'postgres';
+}
+
+export interface HistoryPage {
+  events: HistoryEntry[];
+  nextCursor: string | null;
+}
+
+/** Stable identity of a restart, shared by the in-memory and persisted copies */
+export function historyKey(e: Pick<RestartEvent, 'timestamp' | 'condition' | 'scope'>): string {
+  return `${new Date(e.timestamp).toISOString()}|${e.condition}|${e.scope}`;
+}
+
+export function encodeCursor(cursor: HistoryCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeCursor(token: string): HistoryCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(token, 'base64url').toString('utf8')) as Partial<HistoryCursor>;
+    if (typeof parsed.timestamp !== 'string' || typeof parsed.key !== 'string') return null;
+    if (isNaN(new Date(parsed.timestamp).getTime())) return null;
+    return { timestamp: parsed.timestamp, key: parsed.key };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse GET /api/history query parameters.
+ *
+ * Supported: condition, scope, layer, node, success (true|false),
+ * since, until (ISO timestamps), limit, cursor.
+ */
+export function parseHistoryQuery(params: URLSearchParams): { filter: HistoryFilter; errors: string[] } {
+  const errors: string[] = [];
+  const filter: HistoryFilter = { limit: DEFAULT_LIMIT };
+
+  const condition = params.get('condition');
+  if (condition) filter.condition = condition;
+
+  const scope = params.get('scope');
+  if (scope) {
+    if (SCOPES.includes(scope as RestartScope)) filter.scope = scope as RestartScope;
+    else errors.push(`scope must be one of: ${SCOPES.join(', ')}`);
+  }
+
+  const layer = params.get('layer');
+  if (layer) {
+    if (ALL_LAYERS.includes(layer as Layer)) filter.layer = layer as Layer;
+    else errors.push(`Unknown layer: ${layer}`);
+  }
+
+  const node = params.get('node');
+  if (node) filter.node = node;
+
+  const success = params.get('success');
+  if (success) {
+    if (success === 'true' || success === 'false') filter.success = success === 'true';
+    else errors.push('success must be true or false');
+  }
+
+  for (const name of ['since', 'until'] as const) {
+    const raw = params.get(name);
+    if (!raw) continue;
+    const date = new Date(raw);
+    if (isNaN(date.getTime())) errors.push(`${name} must be an ISO timestamp`);
+    else filter[name] = date;
+  }
+
+  const limit = params.get('limit');
+  if (limit) {
+    const n = Number(limit);
+    if (!Number.isInteger(n) || n < 1) errors.push('limit must be a positive integer');
+    else filter.limit = Math.min(n, MAX_LIMIT);
+  }
+
+  const cursor = params.get('cursor');
+  if (cursor) {
+    const decoded = decodeCursor(cursor);
+    if (decoded) filter.cursor = decoded;
+    else errors.push('Invalid cursor');
+  }
+
+  return { filter, errors };
+}
+
+/** Whether an entry sorts strictly after the cursor (i.e. belongs on a later page). */
+function isAfterCursor(e: HistoryEntry, cursor: HistoryCursor): boolean {
+  const t = new Date(e.timestamp).getTime();
+  const ct = new Date(cursor.timestamp).getTime();
+  if (t !== ct) return t < ct;
+  return historyKey(e) < cursor.key;
+}
+
+/** Whether an entry matches every filter field (cursor and limit excluded). */
+export function matchesFilter(e: RestartEvent, filter: HistoryFilter): boolean {
+  const t = new Date(e.timestamp).getTime();
+  if (filter.condition && e.condition !== filter.condition) return false;
+  if (filter.scope && e.scope !== filter.scope) return false;
+  if (filter.layer && !e.layers.includes(filter.layer)) return false;
+  if (filter.node && !e.nodes.includes(filter.node)) return false;
+  if (filter.success !== undefined && e.success !== filter.success) return false;
+  if (filter.since && t < filter.since.getTime()) return false;
+  if (filter.until && t > filter.until.getTime()) return false;
+  return true;
+}
+
+/**
+ * Merge in-memory and persisted events, filter, and return one page.
+ *
+ * When a restart exists in both sources, the in-memory copy wins (it is
+ * the orchestrator's own record and carries the error message).
+ */
+export function queryHistory(
+  memory: RestartEvent[],
+  persisted: RestartEvent[],
+  filter: HistoryFilter,
+): HistoryPage {
+  const byKey = new Map<string, HistoryEntry>();
+  for (const e of persisted) byKey.set(historyKey(e), { ...e, source: 'postgres' });
+  for (const e of memory) byKey.set(historyKey(e), { ...e, source: 'memory' });
+
+  const matching = [...byKey.values()]
+    .filter(e => matchesFilter(e, filter))
+    .filter(e => !filter.cursor || isAfterCursor(e, filter.cursor))
+    .sort((a, b) => {
+      const diff = new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
+      if (diff !== 0) return diff;
+      const ka = historyKey(a);
+      const kb = historyKey(b);
+      return ka < kb ? 1 : ka > kb ? -1 : 0;
+    });
+
+  const events = matching.slice(0, filter.limit);
+  const last = events[events.length - 1];
+  const nextCursor = matching.length > filter.limit && last
+    ? encodeCursor({ timestamp: last.timestamp, key: historyKey(last) })
+    : null;
+
+  return { events, nextCursor };
+}
@@ -0,0 +1,91 @@
+/**
+ * Manual Restart Job Tests
+ *
+ * Tests request validation and synthetic detection building. Job execution
+ * itself drives the orchestrator (SSH) and is not exercised here.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { parseManualRestartRequest, buildManualDetection } from './jobs.js';
+import type { Config } from '../config.js';
+
+vi.mock('../logger.js', () => ({
+  log: vi.fn(),
+}));
+
+function makeConfig(): Config {
+  return {
+    nodes: [
+      { ip: '10.0.0.1', name: 'node1' },
+      { ip: '10.0.0.2', name: 'node2' },
+      { ip: '10.0.0.3', name: 'node3' },
+    ],
+    managedLayers: ['gl0', 'ml0', 'dl1'],
+  } as Config;
+}
+
+describe('parseManualRestartRequest()', () => {
+  const config = makeConfig();
+
+  it('accepts a full-layer request', () => {
+    const { request, errors } = parseManualRestartRequest({ scope: 'full-layer', layers: ['dl1'] }, config);
+    expect(errors).toEqual([]);
+    expect(request).toEqual({ scope: 'full-layer', layers: ['dl1'], nodes: [], reason: undefined });
+  });
+
+  it('normalizes node names to IPs and dedupes', () => {
+    const { request } = parseManualRestartRequest(
+      { scope: 'individual-node', layers: ['dl1'], nodes: ['node2', '10.0.0.2'] },
+      config,
+    );
+    expect(request?.nodes).toEqual(['10.0.0.2']);
+  });
+
+  it('rejects unknown scope, layer and node', () => {
+    const { request, errors } = parseManualRestartRequest(
+      { scope: 'everything', layers: ['xl9'], nodes: ['10.9.9.9'] },
+      config,
+    );
+    expect(request).toBeUndefined();
+    expect(errors).toHaveLength(3);
+  });
+
+  it('requires nodes for individual-node scope', () => {
+    const { errors } = parseManualRestartRequest({ scope: 'individual-node', layers: ['dl1'] }, config);
+    expect(errors).toContain('individual-node restarts require at least one node');
+  });
+
+  it('allows full-metagraph without layers', () => {
+    const { request, errors } = parseManualRestartRequest({ scope: 'full-metagraph' }, config);
+    expect(errors).toEqual([]);
+    expect(request?.scope).toBe('full-metagraph');
+  });
+
+  it('rejects non-object bodies', () => {
+    expect(parseManualRestartRequest([], config).errors).toEqual(['Request body must be a JSON object']);
+  });
+});
+
+describe('buildManualDetection()', () => {
+  const config = makeConfig();
+
+  it('builds a Manual detection with the requested scope', () => {
+    const detection = buildManualDetection(
+      { scope: 'full-layer', layers: ['dl1'], nodes: [], reason: 'stuck after deploy' },
+      config,
+    );
+    expect(detection).toMatchObject({
+      detected: true,
+      condition: 'Manual',
+      restartScope: 'full-layer',
+      affectedLayers: ['dl1'],
+      affectedNodes: ['10.0.0.1', '10.0.0.2', '10.0.0.3'],
+    });
+    expect(detection.details).toContain('stuck after deploy');
+  });
+
+  it('defaults full-metagraph layers to managed metagraph layers', () => {
+    const detection = buildManualDetection({ scope: 'full-metagraph', layers: [], nodes: [] }, config);
+    expect(detection.affectedLayers).toEqual(['ml0', 'dl1']);
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * Manual Restart Jobs
+ *
+ * Operator-requested restarts (POST /api/restart) run in the background
+ * because a full-layer or full-metagraph restart can take many minutes.
+ * Each request becomes a job that callers poll for progress and the final
+ * RestartEvent.
+ *
+ * Jobs are kept in memory only — the last MAX_JOBS are retained.
+ */
+
+import { randomUUID } from 'crypto';
+import type { Config } from '../config.js';
+import type { DetectionResult, Layer, RestartEvent, RestartScope } from '../types.js';
+import { ALL_LAYERS } from '../types.js';
+import { executeRestart, type RestartOutcome } from './orchestrator.js';
+import { log } from '../logger.js';
+
+/** Number of finished jobs kept for polling */
+const MAX_JOBS = 50;
+
+export type ManualRestartScope = Exclude<RestartScope, 'none'>;
+
+const MANUAL_SCOPES: ManualRestartScope[] = ['individual-node', 'full-layer', 'full-metagraph'];
+
+/** Validated manual restart request */
+export interface ManualRestartRequest {
+  scope: ManualRestartScope;
+  layers: Layer[];
+  /** Node public IPs */
+  nodes: string[];
+  /** Free-text reason, recorded in the detection details */
+  reason?: string;
+}
+
+export type RestartJobStatus = 'running' | 'succeeded' | 'failed';
+
+export interface RestartJobProgress {
+  timestamp: string;
+  message: string;
+}
+
+export interface RestartJob {
+  id: string;
+  status: RestartJobStatus;
+  request: ManualRestartRequest;
+  createdAt: string;
+  finishedAt?: string;
+  progress: RestartJobProgress[];
+  /** Final restart event (absent until the job finishes, or if the restart was skipped) */
+  event?: RestartEvent;
+  error?: string;
+}
+
+/** Called once a job finishes (used to publish events / notify) */
+export type RestartJobCompleteFn = (
+  job: RestartJob,
+  detection: DetectionResult,
+  outcome: RestartOutcome,
+) => void | Promise<void>;
+
+const jobs = new Map<string, RestartJob>();
+
+/**
+ * Validate an untrusted request body.
+ *
+ * Nodes may be given by public IP or by configured name; they are
+ * normalized to IPs.
+ */
+export function parseManualRestartRequest(
+  body: unknown,
+  config: Config,
+): { request?: ManualRestartRequest; errors: string[] } {
+  const errors: string[] = [];
+
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { errors: ['Request body must be a JSON object'] };
+  }
+
+  const raw = body as Record<string, unknown>;
+
+  const scope = raw.scope as ManualRestartScope;
+  if (!MANUAL_SCOPES.includes(scope)) {
+    errors.push(`scope must be one of: ${MANUAL_SCOPES.join(', ')}`);
+  }
+
+  const layers: Layer[] = [];
+  if (raw.layers !== undefined) {
+    if (!Array.isArray(raw.layers)) {
+      errors.push('layers must be an array');
+    } else {
+      for (const l of raw.layers) {
+        if (ALL_LAYERS.includes(l as Layer)) {
+          if (!layers.includes(l as Layer)) layers.push(l as Layer);
+        } else {
+          errors.push(`Unknown layer: ${String(l)}`);
+        }
+      }
+    }
+  }
+
+  const nodes: string[] = [];
+  if (raw.nodes !== undefined) {
+    if (!Array.isArray(raw.nodes)) {
+      errors.push('nodes must be an array');
+    } else {
+      for (const n of raw.nodes) {
+        const node = config.nodes.find(c => c.ip === n || c.name === n);
+        if (!node) {
+          errors.push(`Unknown node: ${String(n)}`);
+        } else if (!nodes.includes(node.ip)) {
+          nodes.push(node.ip);
+        }
+      }
+    }
+  }
+
+  if (raw.reason !== undefined && typeof raw.reason !== 'string') {
+    errors.push('reason must be a string');
+  }
+
+  if (scope === 'individual-node' && nodes.length === 0) {
+    errors.push('individual-node restarts require at least one node');
+  }
+  if ((scope === 'individual-node' || scope === 'full-layer') && layers.length === 0) {
+    errors.push(`${scope} restarts require at least one layer`);
+  }
+
+  if (errors.length > 0) return { errors };
+
+  return {
+    request: { scope, layers, nodes, reason: raw.reason as string | undefined },
+    errors,
+  };
+}
+
+/**
+ * Build the synthetic detection that drives executeRestart() for a manual request.
+ */
+export function buildManualDetection(request: ManualRestartRequest, config: Config): DetectionResult {
+  const layers = request.layers.length > 0
+    ? request.layers
+    : config.managedLayers.filter(l => l !== 'gl0');
+  const nodes = request.nodes.length > 0
+    ? request.nodes
+    : config.nodes.map(n => n.ip);
+
+  return {
+    detected: true,
+    condition: 'Manual',
+    details: `Manual ${request.scope} restart${request.reason ? ` — ${request.reason}` : ''}`,
+    restartScope: request.scope,
+    affectedLayers: layers,
+    affectedNodes: nodes,
+  };
+}
+
+/**
+ * Start a manual restart job in the background and return it immediately.
+ */
+export function startRestartJob(
+  config: Config,
+  request: ManualRestartRequest,
+  onComplete?: RestartJobCompleteFn,
+): RestartJob {
+  const job: RestartJob = {
+    id: randomUUID(),
+    status: 'running',
+    request,
+    createdAt: new Date().toISOString(),
+    progress: [],
+  };
+  jobs.set(job.id, job);
+  pruneJobs();
+
+  const detection = buildManualDetection(request, config);
+  log(`[Jobs] Started manual restart job ${job.id}: ${detection.details}`);
+
+  // Reloads replace top-level config keys — a snapshot keeps this restart on one config
+  void executeRestart({ ...config }, detection, {
+    manual: true,
+    onProgress: message => {
+      job.progress.push({ timestamp: new Date().toISOString(), message });
+    },
+  })
+    .catch((err): RestartOutcome => ({
+      success: false,
+      error: err instanceof Error ? err.message : String(err),
+    }))
+    .then(async outcome => {
+      job.status = outcome.success ? 'succeeded' : 'failed';
+      job.event = outcome.event;
+      job.error = outcome.error;
+      job.finishedAt = new Date().toISOString();
+      log(`[Jobs] Manual restart job ${job.id} ${job.status}${job.error ? `: ${job.error}` : ''}`);
+
+      try {
+        await onComplete?.(job, detection, outcome);
+      } catch (err) {
+        log(`[Jobs] Completion handler for ${job.id} failed: ${err}`);
+      }
+    });
+
+  return job;
+}
+
+/**
+ * Look up a job by id.
+ */
+export function getRestartJob(id: string): RestartJob | undefined {
+  return jobs.get(id);
+}
+
+/**
+ * List known jobs, newest first.
+ */
+export function listRestartJobs(): RestartJob[] {
+  return [...jobs.values()].reverse();
+}
+
+/** Drop the oldest finished jobs beyond MAX_JOBS. */
+function pruneJobs(): void {
+  for (const [id, job] of jobs) {
+    if (jobs.size <= MAX_JOBS) break;
+    if (job.status !== 'running') jobs.delete(id);
+  }
+}
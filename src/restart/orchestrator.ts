@@ -3,27 +3,60 @@
  *
  * Executes the appropriate restart strategy based on the detection result:
  * - individual-node: kill + restart (run-rollback) + rejoin a single node
+ *   (for a fork with a Ready majority: stop, optionally wipe, restart and join
+ *   only the minority nodes to a majority peer)
  * - full-layer: kill all nodes in layer, restart first node + join others
- * - full-metagraph: kill ML0+L1s, restart ML0 → then L1s
+ * - full-metagraph: kill ML0+L1s (and GL0 if affected), restart GL0 → ML0 → then L1s
  *
  * IMPORTANT: The watchdog NEVER performs genesis. Genesis is only done by
  * the deploy workflow (GitHub Actions). The watchdog restarts containers
  * using `docker start` which runs the entrypoint in run-rollback mode,
  * allowing nodes to recover from their last known state.
  *
+ * A live restart only succeeds once post-restart verification confirms the
+ * cluster is healthy and the triggering condition cleared. Automatic restarts
+ * climb the escalation ladder (see escalation.ts) when the previous attempt
+ * for the same condition and layer failed. When enabled, a restart decided on
+ * Redis data is first cross-checked against direct probes (see cross-check.ts)
+ * and aborted if the two disagree.
+ *
  * Tracks restart history and consecutive failures to prevent restart loops.
  *
+ * In dry-run mode the same strategy is walked with a recording executor:
+ * every SSH/docker/join action is returned as a planned action instead of
+ * being run.
+ *
  * NOTE: Alerting is handled by Prometheus/Alertmanager. This module only
  * performs restarts and logs events to Postgres.
  */
 
-import type { Config } from '../config.js';
-import type { DetectionResult, Layer, RestartEvent } from '../types.js';
-import { DEFAULT_MANAGED_LAYERS } from '../types.js';
-import { killLayerProcess, dockerControl, sshExec } from '../services/ssh.js';
-import { getNodeInfo } from '../services/node-api.js';
+import type { Config, NodeConfig } from '../config.js';
+import { findNode, nodeContainer, nodePort } from '../config.js';
+import type {
+  DetectionResult,
+  ForkPartition,
+  HealthSnapshot,
+  Layer,
+  PlannedAction,
+  RestartEvent,
+  RestartScope,
+} from '../types.js';
+import { ALL_LAYERS, DEFAULT_MANAGED_LAYERS } from '../types.js';
+import type { RestartStateStore } from './state-store.js';
+import type { RestartVerifier } from './verification.js';
+import type { SourceCrossChecker } from './cross-check.js';
+import { escalationRung } from './escalation.js';
+import {
+  buildWipeCommand,
+  createLiveExecutor,
+  createDryRunExecutor,
+  type RestartExecutor,
+} from './executor.js';
 import { log } from '../logger.js';
-import { sleep } from '../utils/sleep.js';
+import { recordRestartAttempt, recordRestartBlocked } from '../metrics.js';
+
+/** Restart events kept in memory and persisted (well beyond the 1h rate-limit window) */
+const MAX_HISTORY = 200;
 
 // In-memory restart history
 const restartHistory: RestartEvent[] = [];
@@ -34,15 +67,52 @@ let consecutiveFailures = 0;
 // Whether we've given up (hit max failures)
 let givenUp = false;
 
-function recentRestartCount(minutes: number): number {
-  const cutoff = Date.now() - minutes * 60_000;
-  return restartHistory.filter(r => new Date(r.timestamp).getTime() > cutoff).length;
+// Whether a restart is currently executing (automatic or manual)
+let restartInProgress = false;
+
+/** Options for a single executeRestart() call */
+export interface ExecuteRestartOptions {
+  /**
+   * Manual (operator-requested) restart. Bypasses the suspension, rate limit
+   * and cooldown guards — the operator has explicitly asked for it.
+   */
+  manual?: boolean;
+  /** Called with a human-readable message at each major restart step */
+  onProgress?: (message: string) => void;
+  /** Snapshot the detection was made from — enables the pre-restart source cross-check */
+  snapshot?: HealthSnapshot;
+}
+
+/** Outcome of an executeRestart() call */
+export interface RestartOutcome {
+  success: boolean;
+  error?: string;
+  /** Recorded event — absent when the restart was skipped by a guard */
+  event?: RestartEvent;
+  /** HealthSourceDisagreement result — set when the source cross-check ran, detected when it aborted the restart */
+  crossCheckResult?: DetectionResult;
 }
 
-/** Container name for a layer on a given node index */
-function containerName(layer: Layer, nodeIndex: number): string {
-  const useIndexed = process.env.CONTAINER_NAMING === 'indexed';
-  return useIndexed ? `${layer}-${nodeIndex}` : layer;
+// Where restart state is persisted (null = in-memory only)
+let stateStore: RestartStateStore | null = null;
+
+// Confirms a live restart fixed the problem (null = no verification)
+let restartVerifier: RestartVerifier | null = null;
+
+// Confirms cached health data with direct probes before restarting (null = trust the snapshot)
+let sourceCrossChecker: SourceCrossChecker | null = null;
+
+// Serializes saves so an older snapshot never overwrites a newer one
+let pendingSave: Promise<void> = Promise.resolve();
+
+/** Restarts that actually ran — dry-run plans touched nothing and must not throttle the next plan */
+function liveRestarts(): RestartEvent[] {
+  return restartHistory.filter(r => !r.dryRun);
+}
+
+function recentRestartCount(minutes: number): number {
+  const cutoff = Date.now() - minutes * 60_000;
+  return liveRestarts().filter(r => new Date(r.timestamp).getTime() > cutoff).length;
 }
 
 /**
@@ -52,23 +122,6 @@ function isManaged(layer: Layer, config: Config): boolean {
   return config.managedLayers.includes(layer);
 }
 
-/**
- * Wait for a node to reach Ready state.
- */
-async function waitForReady(
-  ip: string,
-  port: number,
-  timeoutMs = 120_000,
-): Promise<boolean> {
-  const start = Date.now();
-  while (Date.now() - start < timeoutMs) {
-    const info = await getNodeInfo(ip, port);
-    if (info?.state === 'Ready') return true;
-    await sleep(5_000);
-  }
-  return false;
-}
-
 /**
  * Join a node to the cluster via the CLI port.
  *
@@ -76,22 +129,25 @@ async function waitForReady(
  * nodes advertise their private IPs in cluster info.
  */
 async function joinCluster(
-  nodeIp: string,
+  node: NodeConfig,
   referenceId: string,
-  referencePrivateIp: string,
+  reference: NodeConfig,
   layer: Layer,
   config: Config,
+  exec: RestartExecutor,
 ): Promise<void> {
-  const cliPort = config.cliPorts[layer];
-  const p2pPort = config.p2pPorts[layer];
-  const container = containerName(layer, config.nodes.findIndex(n => n.ip === nodeIp));
-
-  log(`[Restart] Joining ${nodeIp} ${layer} to cluster (reference=${referencePrivateIp})`);
-  await sshExec(nodeIp, [
-    `docker exec ${container} curl -sf -X POST http://127.0.0.1:${cliPort}/cluster/join`,
-    `-H 'Content-Type: application/json'`,
-    `-d '{"id":"${referenceId}","ip":"${referencePrivateIp}","p2pPort":${p2pPort}}'`,
-  ].join(' '), config);
+  const referenceIp = reference.privateIp ?? reference.ip;
+
+  exec.report(`Joining ${node.ip} ${layer} to cluster (reference=${referenceIp})`);
+  await exec.joinCluster({
+    nodeIp: node.ip,
+    layer,
+    container: nodeContainer(config, node, layer),
+    cliPort: nodePort(config, node, layer, 'cli'),
+    referenceId,
+    referenceIp,
+    p2pPort: nodePort(config, reference, layer, 'p2p'),
+  }, config);
 }
 
 // ============================================================================
@@ -105,184 +161,272 @@ async function joinCluster(
 async function restartIndividualNodes(
   config: Config,
   result: DetectionResult,
+  exec: RestartExecutor,
 ): Promise<void> {
-  const affectedNodes = result.affectedNodes ?? [];
   const layers = (result.affectedLayers ?? []).filter(l => isManaged(l, config));
 
   if (layers.length === 0) {
-    log(`[Restart] No managed layers in affected set — skipping`);
+    exec.report(`No managed layers in affected set — skipping`);
     return;
   }
 
   for (const layer of layers) {
+    // Merged detections name the nodes per layer; a node healthy on this layer can be the reference
+    const affectedNodes = result.nodesByLayer?.[layer] ?? result.affectedNodes ?? [];
+
     // Find a healthy reference node
     const healthyNode = config.nodes.find(n => !affectedNodes.includes(n.ip));
     if (!healthyNode) {
-      log(`[Restart] No healthy reference node for ${layer} — escalating to full-layer`);
-      await restartFullLayer(config, layer);
-      return;
+      exec.report(`No healthy reference node for ${layer} — escalating to full-layer`);
+      await restartFullLayer(config, layer, exec);
+      continue;
     }
 
-    const port = config.ports[layer];
-    const refInfo = await getNodeInfo(healthyNode.ip, port);
+    const refInfo = await exec.getNodeInfo(healthyNode.ip, nodePort(config, healthyNode, layer));
     if (!refInfo) {
-      log(`[Restart] Reference node ${healthyNode.ip} unreachable — escalating`);
-      await restartFullLayer(config, layer);
-      return;
+      exec.report(`Reference node ${healthyNode.ip} unreachable — escalating`);
+      await restartFullLayer(config, layer, exec);
+      continue;
     }
 
     for (const nodeIp of affectedNodes) {
-      const nodeIdx = config.nodes.findIndex(n => n.ip === nodeIp);
-      const container = containerName(layer, nodeIdx);
+      const node = findNode(config, nodeIp);
+      if (!node) {
+        exec.report(`${nodeIp} is not a configured node — skipping`);
+        continue;
+      }
+      const container = nodeContainer(config, node, layer);
+      const port = nodePort(config, node, layer);
 
-      log(`[Restart] Restarting ${container} on ${nodeIp} (run-rollback)`);
-      await killLayerProcess(nodeIp, container, config);
-      await sleep(3_000);
-      await dockerControl(nodeIp, 'start', container, config);
-      await sleep(15_000);
+      exec.report(`Restarting ${container} on ${nodeIp} (run-rollback)`);
+      await exec.killLayerProcess(nodeIp, container, config);
+      await exec.sleep(3_000);
+      await exec.dockerControl(nodeIp, 'start', container, config);
+      await exec.sleep(15_000);
 
       // Check if it came up on its own (run-rollback may auto-join)
-      const info = await getNodeInfo(nodeIp, port);
-      if (info?.state === 'Ready') {
-        log(`[Restart] ${container} on ${nodeIp} recovered to Ready`);
+      if (await exec.isRestartedNodeReady(nodeIp, port)) {
+        exec.report(`${container} on ${nodeIp} recovered to Ready`);
         continue;
       }
 
       // Try explicit join using private IP for P2P (fallback to public)
-      await joinCluster(nodeIp, refInfo.id, healthyNode.privateIp ?? healthyNode.ip, layer, config);
-      await waitForReady(nodeIp, port, 90_000);
+      await joinCluster(node, refInfo.id, healthyNode, layer, config, exec);
+      await exec.waitForReady(nodeIp, port, 90_000, layer);
     }
   }
 }
 
 /**
- * Restart an entire layer: kill all → start first node (run-rollback) → join others.
- * Does NOT perform genesis — relies on existing state.
+ * First of the given nodes that is Ready on a layer, with its peer id.
  */
-async function restartFullLayer(
+export async function findReadyPeer(
   config: Config,
   layer: Layer,
+  ips: string[],
+  exec: RestartExecutor,
+): Promise<{ peer: NodeConfig; peerId: string } | null> {
+  for (const ip of ips) {
+    const node = findNode(config, ip);
+    const info = node && await exec.getNodeInfo(ip, nodePort(config, node, layer));
+    if (node && info?.state === 'Ready') return { peer: node, peerId: info.id };
+  }
+  return null;
+}
+
+/**
+ * Heal a forked layer by rejoining only its minority nodes to a majority peer
+ * (what the `recover` command does on demand). Falls back to a
+ * full-layer restart when no majority peer is Ready.
+ */
+async function healFork(
+  config: Config,
+  fork: ForkPartition,
+  exec: RestartExecutor,
 ): Promise<void> {
-  if (!isManaged(layer, config)) {
-    log(`[Restart] ${layer.toUpperCase()} is not a managed layer — skipping`);
+  const { layer } = fork;
+  const ready = await findReadyPeer(config, layer, fork.majorityNodes, exec);
+  if (!ready) {
+    exec.report(`No Ready majority peer for ${layer} — falling back to full-layer restart`);
+    await restartFullLayer(config, layer, exec);
     return;
   }
+  const { peer, peerId } = ready;
+
+  const { wipeData, dataDir } = config.forkHealing ?? { wipeData: false, dataDir: '' };
+  exec.report(`Healing ${layer.toUpperCase()} fork: rejoining ${fork.minorityNodes.join(', ')} to majority peer ${peer.ip}`);
+
+  for (const nodeIp of fork.minorityNodes) {
+    const node = findNode(config, nodeIp);
+    if (!node) {
+      exec.report(`${nodeIp} is not a configured node — skipping`);
+      continue;
+    }
+    await rejoinNode(config, layer, node, peer, peerId, exec, wipeData ? dataDir : undefined);
+  }
+}
 
-  log(`[Restart] Full ${layer.toUpperCase()} layer restart (run-rollback)`);
+/**
+ * Stop a node's layer, optionally empty its data directory (`{layer}` in the
+ * path is replaced), start it again and join it to a peer. Throws if the node
+ * does not become Ready.
+ */
+export async function rejoinNode(
+  config: Config,
+  layer: Layer,
+  node: NodeConfig,
+  peer: NodeConfig,
+  peerId: string,
+  exec: RestartExecutor,
+  wipeDataDir?: string,
+): Promise<void> {
+  const container = nodeContainer(config, node, layer);
 
-  const port = config.ports[layer];
+  exec.report(`Stopping ${container} on ${node.ip}`);
+  await exec.killLayerProcess(node.ip, container, config);
+  await exec.sleep(3_000);
 
-  // Note: ML0 issues are escalated to full-metagraph at the top level of executeRestart().
-  // GL0 restarts independently — metagraph layers will reconnect to GL0 peer.
+  if (wipeDataDir) {
+    const dir = wipeDataDir.replaceAll('{layer}', layer);
+    exec.report(`Wiping ${dir} on ${node.ip}`);
+    const { code, stderr } = await exec.sshExec(node.ip, buildWipeCommand(dir), config);
+    if (code !== 0) throw new Error(`Failed to wipe ${dir} on ${node.ip}: ${stderr.trim() || `exit ${code}`}`);
+  }
 
-  // Kill all nodes for this layer
-  await Promise.all(config.nodes.map((n, i) =>
-    killLayerProcess(n.ip, containerName(layer, i), config).catch(() => {})
-  ));
-  await sleep(5_000);
+  await exec.dockerControl(node.ip, 'start', container, config);
+  await exec.sleep(15_000);
 
+  // Always join explicitly — coming up Ready on its own may mean it rejoined its old partition
+  await joinCluster(node, peerId, peer, layer, config, exec);
+  if (!await exec.waitForReady(node.ip, nodePort(config, node, layer), 120_000, layer)) {
+    throw new Error(`${layer} on ${node.ip} did not become Ready after rejoining ${peer.ip}`);
+  }
+}
+
+/**
+ * Bring a stopped layer back up: start first node (run-rollback) → join others
+ * → wait for all to be Ready.
+ */
+async function startLayer(
+  config: Config,
+  layer: Layer,
+  exec: RestartExecutor,
+): Promise<void> {
   // Start first node via run-rollback (docker start)
   const first = config.nodes[0];
-  const firstContainer = containerName(layer, 0);
-  log(`[Restart] Starting ${firstContainer} on ${first.ip} (run-rollback)`);
-  await dockerControl(first.ip, 'start', firstContainer, config);
+  const firstContainer = nodeContainer(config, first, layer);
+  const firstPort = nodePort(config, first, layer);
+  exec.report(`Starting ${firstContainer} on ${first.ip} (run-rollback)`);
+  await exec.dockerControl(first.ip, 'start', firstContainer, config);
 
-  if (!await waitForReady(first.ip, port, 180_000)) {
+  if (!await exec.waitForReady(first.ip, firstPort, 180_000, layer)) {
     throw new Error(`${layer} on ${first.ip} did not become Ready after run-rollback`);
   }
 
-  const firstInfo = await getNodeInfo(first.ip, port);
+  const firstInfo = await exec.getRestartedNodeInfo(first.ip, firstPort);
   if (!firstInfo) throw new Error(`Cannot get node info for ${layer} on ${first.ip}`);
 
   // Start and join remaining nodes
-  for (let i = 1; i < config.nodes.length; i++) {
-    const node = config.nodes[i];
-    const container = containerName(layer, i);
-    await dockerControl(node.ip, 'start', container, config);
-    await sleep(15_000);
+  for (const node of config.nodes.slice(1)) {
+    const container = nodeContainer(config, node, layer);
+    await exec.dockerControl(node.ip, 'start', container, config);
+    await exec.sleep(15_000);
 
     // Check if auto-joined
-    const info = await getNodeInfo(node.ip, port);
-    if (info?.state === 'Ready') {
-      log(`[Restart] ${container} on ${node.ip} auto-recovered to Ready`);
+    if (await exec.isRestartedNodeReady(node.ip, nodePort(config, node, layer))) {
+      exec.report(`${container} on ${node.ip} auto-recovered to Ready`);
       continue;
     }
 
-    await joinCluster(node.ip, firstInfo.id, first.privateIp ?? first.ip, layer, config);
+    await joinCluster(node, firstInfo.id, first, layer, config, exec);
   }
 
   // Wait for all to be Ready
+  const notReady: string[] = [];
   for (const node of config.nodes) {
-    await waitForReady(node.ip, port, 120_000);
+    if (!await exec.waitForReady(node.ip, nodePort(config, node, layer), 120_000, layer)) notReady.push(node.ip);
+  }
+  if (notReady.length > 0) {
+    throw new Error(`${layer} did not become Ready on ${notReady.join(', ')}`);
   }
+}
 
-  log(`[Restart] ${layer.toUpperCase()} layer restart complete`);
+/** Kill a layer's process on every node */
+async function killLayer(config: Config, layer: Layer, exec: RestartExecutor): Promise<void> {
+  await Promise.all(config.nodes.map(n =>
+    exec.killLayerProcess(n.ip, nodeContainer(config, n, layer), config).catch(() => {})
+  ));
 }
 
 /**
- * Full metagraph restart: kill managed layers → start ML0 → start L1s.
- *
- * Uses run-rollback (docker start) — NOT genesis.
- * The first node to start will recover from its last snapshot and
- * other nodes join it.
+ * Restart an entire layer: kill all → start first node (run-rollback) → join others.
+ * Does NOT perform genesis — relies on existing state.
  */
-async function restartFullMetagraph(config: Config): Promise<void> {
-  log('[Restart] === Full Metagraph Restart (run-rollback) ===');
+async function restartFullLayer(
+  config: Config,
+  layer: Layer,
+  exec: RestartExecutor,
+): Promise<void> {
+  if (!isManaged(layer, config)) {
+    exec.report(`${layer.toUpperCase()} is not a managed layer — skipping`);
+    return;
+  }
 
-  // Only restart managed layers, in reverse dependency order
-  const managedReverse = [...config.managedLayers].reverse();
+  exec.report(`Full ${layer.toUpperCase()} layer restart (run-rollback)`);
 
-  // Kill managed layers in reverse dependency order
-  for (const layer of managedReverse) {
-    await Promise.all(config.nodes.map((n, i) =>
-      killLayerProcess(n.ip, containerName(layer, i), config).catch(() => {})
-    ));
-  }
-  await sleep(5_000);
+  // Note: ML0 issues are escalated to full-metagraph at the top level of executeRestart().
+  // GL0 restarts independently — metagraph layers will reconnect to GL0 peer.
 
-  // Start ML0 if managed
-  if (config.managedLayers.includes('ml0')) {
-    log('[Restart] Starting ML0 (run-rollback)...');
-    await dockerControl(config.nodes[0].ip, 'start', containerName('ml0', 0), config);
+  await killLayer(config, layer, exec);
+  await exec.sleep(5_000);
 
-    if (!await waitForReady(config.nodes[0].ip, config.ports.ml0, 180_000)) {
-      throw new Error('ML0 did not become Ready after run-rollback');
-    }
+  await startLayer(config, layer, exec);
 
-    const ml0Info = await getNodeInfo(config.nodes[0].ip, config.ports.ml0);
-    if (!ml0Info) throw new Error('Cannot get ML0 info after restart');
+  exec.report(`${layer.toUpperCase()} layer restart complete`);
+}
 
-    for (let i = 1; i < config.nodes.length; i++) {
-      await dockerControl(config.nodes[i].ip, 'start', containerName('ml0', i), config);
-      await sleep(15_000);
+/**
+ * Full metagraph restart: kill the given layers → start GL0 (only if it is
+ * one of them) → start ML0 → start L1s.
+ *
+ * Uses run-rollback (docker start) — NOT genesis.
+ * The first node to start will recover from its last snapshot and
+ * other nodes join it.
+ */
+async function restartFullMetagraph(config: Config, layers: Layer[], exec: RestartExecutor): Promise<void> {
+  exec.report('=== Full Metagraph Restart (run-rollback) ===');
 
-      const info = await getNodeInfo(config.nodes[i].ip, config.ports.ml0);
-      if (info?.state === 'Ready') {
-        log(`[Restart] ML0 on ${config.nodes[i].ip} auto-recovered`);
-        continue;
-      }
+  // Kill in reverse dependency order
+  const ordered = ALL_LAYERS.filter(l => layers.includes(l));
+  for (const layer of [...ordered].reverse()) {
+    await killLayer(config, layer, exec);
+  }
+  await exec.sleep(5_000);
 
-      await joinCluster(config.nodes[i].ip, ml0Info.id, config.nodes[0].privateIp ?? config.nodes[0].ip, 'ml0', config);
-    }
+  // GL0 first — ML0 connects to it
+  if (ordered.includes('gl0')) {
+    exec.report('Starting GL0 (run-rollback)...');
+    await startLayer(config, 'gl0', exec);
+    exec.report('GL0 cluster ready');
+  }
 
-    // Verify ML0 cluster
-    for (const node of config.nodes) {
-      await waitForReady(node.ip, config.ports.ml0, 120_000);
-    }
-    log('[Restart] ML0 cluster ready');
+  if (ordered.includes('ml0')) {
+    exec.report('Starting ML0 (run-rollback)...');
+    await startLayer(config, 'ml0', exec);
+    exec.report('ML0 cluster ready');
   }
 
-  // Start remaining managed L1 layers
-  const l1Layers = config.managedLayers.filter(l => l !== 'ml0' && l !== 'gl0');
+  // Start the L1 layers (already stopped above)
+  const l1Layers = ordered.filter(l => l !== 'ml0' && l !== 'gl0');
   if (l1Layers.length > 0) {
     await Promise.all(l1Layers.map(layer =>
-      restartFullLayer(config, layer).catch(err => {
-        log(`[Restart] ${layer} restart failed: ${err}`);
+      startLayer(config, layer, exec).catch(err => {
+        exec.report(`${layer} restart failed: ${err}`);
       })
     ));
   }
 
-  log('[Restart] === Full Metagraph Restart Complete ===');
+  exec.report('=== Full Metagraph Restart Complete ===');
 }
 
 // ============================================================================
@@ -291,108 +435,342 @@ async function restartFullMetagraph(config: Config): Promise<void> {
 
 /**
  * Execute restart based on detection result.
- * Returns true if a restart was performed.
+ * Returns success=true if a restart was performed and completed.
  */
 export async function executeRestart(
   config: Config,
   result: DetectionResult,
-): Promise<{ success: boolean; error?: string }> {
+  options: ExecuteRestartOptions = {},
+): Promise<RestartOutcome> {
   if (!result.detected || result.restartScope === 'none') return { success: false };
 
+  // Restarts are serialized — a manual restart may be running while the
+  // daemon loop detects a problem (or vice versa)
+  if (restartInProgress) {
+    const msg = 'Another restart is already in progress';
+    log(`[Restart] ${msg} — skipping ${result.condition}`);
+    recordRestartBlocked(result.condition);
+    return { success: false, error: msg };
+  }
+
+  restartInProgress = true;
+  try {
+    return await runRestart(config, result, options);
+  } finally {
+    restartInProgress = false;
+  }
+}
+
+/**
+ * Check the automatic-restart guards (suspension, rate limit, cooldown).
+ * Returns the reason a restart would be blocked, or null if it may proceed.
+ */
+export function checkRestartGuards(config: Config): string | null {
   // If we've given up after max consecutive failures, don't try again
   // until the condition clears (nodes recover on their own or manual intervention)
   if (givenUp) {
-    log(`[Restart] Restart suspended after ${config.maxConsecutiveFailures} consecutive failures. Manual intervention required.`);
-    return { success: false };
+    return `Restart suspended after ${config.maxConsecutiveFailures} consecutive failures. Manual intervention required.`;
   }
 
   // Rate limit
   const recentCount = recentRestartCount(60);
   if (recentCount >= config.maxRestartsPerHour) {
-    const msg = `Restart loop detected (${recentCount} restarts in 1h). Manual intervention required.`;
-    log(`[Restart] ${msg}`);
-    return { success: false };
+    return `Restart loop detected (${recentCount} restarts in 1h). Manual intervention required.`;
   }
 
   // Cooldown check
-  const lastRestart = restartHistory[restartHistory.length - 1];
+  const lastRestart = liveRestarts().at(-1);
   if (lastRestart) {
     const sinceLastMs = Date.now() - new Date(lastRestart.timestamp).getTime();
     if (sinceLastMs < config.restartCooldownMinutes * 60_000) {
-      log(`[Restart] Cooldown active (${(sinceLastMs / 60_000).toFixed(1)}m since last restart)`);
-      return { success: false };
+      return `Cooldown active (${(sinceLastMs / 60_000).toFixed(1)}m since last restart)`;
     }
   }
 
+  return null;
+}
+
+/** A detection after the escalation ladder has been applied */
+interface EscalatedDetection {
+  result: DetectionResult;
+  notes: string[];
+  /** Set when the ladder is exhausted and automatic restarts should be suspended */
+  suspendReason?: string;
+}
+
+/**
+ * Move a detection up the escalation ladder if earlier restarts for the
+ * same condition and layer failed within the escalation window.
+ */
+function applyEscalation(config: Config, result: DetectionResult): EscalatedDetection {
+  const escalation = escalationRung(result, restartHistory, config.escalationWindowMinutes);
+  const notes = escalation.notes.map(n => `Escalation: ${n}`);
+
+  if (escalation.rung === 'suspend') {
+    return {
+      result,
+      notes,
+      suspendReason: `Escalation ladder exhausted for ${result.condition} (full-metagraph restart already failed). Suspending automatic restarts — manual intervention required.`,
+    };
+  }
+  if (!escalation.escalated) return { result, notes };
+  return { result: { ...result, restartScope: escalation.rung }, notes };
+}
+
+/** Scope and layers a detection actually restarts, after managed-layer filtering and escalation */
+export interface ResolvedRestartScope {
+  scope: RestartScope;
+  layers: Layer[];
+  /** Affected layers the watchdog manages */
+  managedAffected: Layer[];
+  /** Human-readable notes on filtering / escalation decisions */
+  notes: string[];
+  /** Set when nothing can be restarted */
+  skipReason?: string;
+}
+
+/**
+ * Resolve the effective restart scope for a detection.
+ */
+export function resolveRestartScope(config: Config, result: DetectionResult): ResolvedRestartScope {
+  const notes: string[] = [];
+
   // Filter affected layers to only managed ones
   const managedAffected = (result.affectedLayers ?? []).filter(l => isManaged(l, config));
+  const unmanaged = (result.affectedLayers ?? []).filter(l => !isManaged(l, config));
+  if (unmanaged.length > 0) {
+    notes.push(`Not managed (detection only): ${unmanaged.join(', ')}`);
+  }
+
   if (managedAffected.length === 0 && result.restartScope !== 'full-metagraph') {
-    log(`[Restart] No managed layers affected (affected: ${result.affectedLayers?.join(', ')}, managed: ${config.managedLayers.join(', ')})`);
-    return { success: false };
+    return {
+      scope: 'none',
+      layers: [],
+      managedAffected,
+      notes,
+      skipReason: `No managed layers affected (affected: ${result.affectedLayers?.join(', ')}, managed: ${config.managedLayers.join(', ')})`,
+    };
   }
 
   // Dependency-aware layer restart logic:
   // - GL0 is independent (can restart alone)
   // - ML0 requires full metagraph restart (ML0 + CL1 + DL1)
   // - CL1/DL1 can restart independently (ML0 stays up)
+  // - A full-metagraph restart covers ML0 + L1 layers, plus GL0 only if GL0 itself is affected
   const hasML0 = managedAffected.includes('ml0');
-  const effectiveScope = hasML0 ? 'full-metagraph' : result.restartScope;
-  const effectiveLayers = hasML0
-    ? config.managedLayers.filter(l => l !== 'gl0')  // ML0 + L1 layers
+  const scope = hasML0 ? 'full-metagraph' : result.restartScope;
+  const layers = scope === 'full-metagraph'
+    ? config.managedLayers.filter(l => l !== 'gl0' || managedAffected.includes('gl0'))
     : managedAffected;
 
   if (hasML0 && result.restartScope !== 'full-metagraph') {
-    log(`[Restart] ML0 affected → escalating to full-metagraph restart`);
+    notes.push('ML0 affected → escalating to full-metagraph restart');
+  }
+
+  return { scope, layers, managedAffected, notes };
+}
+
+/**
+ * Run the restart strategy for a resolved scope.
+ */
+async function runStrategy(
+  config: Config,
+  result: DetectionResult,
+  resolved: ResolvedRestartScope,
+  exec: RestartExecutor,
+): Promise<void> {
+  switch (resolved.scope) {
+    case 'individual-node':
+      if (result.fork && isManaged(result.fork.layer, config)) {
+        await healFork(config, result.fork, exec);
+      } else {
+        await restartIndividualNodes(config, { ...result, affectedLayers: resolved.managedAffected }, exec);
+      }
+      break;
+    case 'full-layer':
+      // Restart layers in dependency order: GL0 first (if affected), then CL1/DL1
+      // (ML0 escalates to full-metagraph above, so won't be here)
+      if (resolved.layers.includes('gl0')) {
+        await restartFullLayer(config, 'gl0', exec);
+      }
+      for (const layer of resolved.layers.filter(l => l !== 'gl0')) {
+        await restartFullLayer(config, layer, exec);
+      }
+      break;
+    case 'full-metagraph':
+      await restartFullMetagraph(config, resolved.layers, exec);
+      break;
   }
+}
 
-  log(`[Restart] Initiating ${effectiveScope} restart for ${result.condition}: ${result.details}`);
+async function runRestart(
+  config: Config,
+  result: DetectionResult,
+  options: ExecuteRestartOptions,
+): Promise<RestartOutcome> {
+  const exec = config.dryRun
+    ? createDryRunExecutor(options.onProgress)
+    : createLiveExecutor(options.onProgress);
+
+  const requestedScope = result.restartScope;
+  if (options.manual) {
+    exec.report(`Manual restart requested — bypassing suspension, rate limit, cooldown and escalation`);
+  } else {
+    const blockedBy = checkRestartGuards(config);
+    if (blockedBy) {
+      exec.report(blockedBy);
+      recordRestartBlocked(result.condition);
+      return { success: false, error: blockedBy };
+    }
+
+    const escalated = applyEscalation(config, result);
+    for (const note of escalated.notes) exec.report(note);
+    if (escalated.suspendReason) {
+      givenUp = true;
+      exec.report(`⛔ ${escalated.suspendReason}`);
+      recordRestartBlocked(result.condition);
+      persistRestartState();
+      return { success: false, error: escalated.suspendReason };
+    }
+    result = escalated.result;
+  }
+
+  const resolved = resolveRestartScope(config, result);
+  if (resolved.skipReason) {
+    exec.report(resolved.skipReason);
+    return { success: false, error: resolved.skipReason };
+  }
+  for (const note of resolved.notes) exec.report(note);
+
+  const effectiveScope = resolved.scope;
+  exec.report(`${exec.dryRun ? '[DRY-RUN] Planning' : 'Initiating'} ${effectiveScope} restart for ${result.condition}: ${result.details}`);
 
   const event: RestartEvent = {
     timestamp: new Date().toISOString(),
     scope: effectiveScope,
     condition: result.condition,
-    layers: effectiveLayers,
+    ...(result.mergedConditions ? { conditions: result.mergedConditions } : {}),
+    layers: resolved.layers,
     nodes: result.affectedNodes ?? [],
     success: false,
+    ...(result.restartScope !== requestedScope ? { escalatedFrom: requestedScope } : {}),
+    ...(exec.dryRun ? { dryRun: true } : {}),
   };
 
+  let crossCheckResult: DetectionResult | undefined;
+  if (sourceCrossChecker && options.snapshot && !options.manual) {
+    const crossCheck = await sourceCrossChecker(result, options.snapshot);
+    if (crossCheck) {
+      event.crossCheck = crossCheck.check;
+      crossCheckResult = crossCheck.detection;
+      exec.report(`Cross-checked ${crossCheck.lines.length} node layer(s) against direct probes:`);
+      for (const line of crossCheck.lines) exec.report(`  ${line}`);
+
+      if (crossCheck.detection.detected) {
+        // Nothing was restarted: not a failure, and not recorded in the history
+        // the rate limit, cooldown and escalation ladder are derived from
+        event.error = 'Health sources disagree — restart aborted';
+        exec.report(`⛔ ${event.error}`);
+        recordRestartBlocked(result.condition);
+        return { success: false, error: event.error, event, crossCheckResult };
+      }
+    }
+  }
+
   try {
-    switch (effectiveScope) {
-      case 'individual-node':
-        await restartIndividualNodes(config, { ...result, affectedLayers: managedAffected });
-        break;
-      case 'full-layer':
-        // Restart layers in dependency order: GL0 first (if affected), then CL1/DL1
-        // (ML0 escalates to full-metagraph above, so won't be here)
-        if (effectiveLayers.includes('gl0')) {
-          await restartFullLayer(config, 'gl0');
-        }
-        for (const layer of effectiveLayers.filter(l => l !== 'gl0')) {
-          await restartFullLayer(config, layer);
-        }
-        break;
-      case 'full-metagraph':
-        await restartFullMetagraph(config);
-        break;
+    await runStrategy(config, result, resolved, exec);
+
+    if (restartVerifier && !exec.dryRun) {
+      exec.report('Verifying restart (settle, re-read health, re-run detectors)...');
+      event.verification = await restartVerifier(result, resolved.layers);
+      for (const check of event.verification.checks) {
+        exec.report(`  ${check.passed ? '✓' : '✗'} ${check.check}: ${check.details}`);
+      }
+      if (!event.verification.passed) throw new Error(`Verification failed — ${event.verification.reason}`);
     }
 
     event.success = true;
     consecutiveFailures = 0;
     givenUp = false;
-    log(`[Restart] Restart complete (${result.restartScope})`);
+    exec.report(exec.dryRun
+      ? `[DRY-RUN] Restart plan complete (${effectiveScope}, ${exec.plannedActions.length} action(s))`
+      : `Restart complete (${effectiveScope})`);
   } catch (err) {
     event.error = err instanceof Error ? err.message : String(err);
     consecutiveFailures++;
-    log(`[Restart] Failed (${consecutiveFailures}/${config.maxConsecutiveFailures}): ${event.error}`);
+    exec.report(`Failed (${consecutiveFailures}/${config.maxConsecutiveFailures}): ${event.error}`);
 
     if (consecutiveFailures >= config.maxConsecutiveFailures) {
       givenUp = true;
-      log(`[Restart] ⛔ Max consecutive failures (${config.maxConsecutiveFailures}) reached. Suspending automatic restarts. Manual intervention required.`);
+      exec.report(`⛔ Max consecutive failures (${config.maxConsecutiveFailures}) reached. Suspending automatic restarts. Manual intervention required.`);
+    }
+  }
+
+  if (exec.dryRun) {
+    event.plannedActions = exec.plannedActions;
+    for (const action of exec.plannedActions) {
+      log(`[Restart] [DRY-RUN] ${action.step}. ${action.description}`);
     }
   }
 
+  recordRestartAttempt(event);
   restartHistory.push(event);
-  return { success: event.success, error: event.error };
+  if (restartHistory.length > MAX_HISTORY) {
+    restartHistory.splice(0, restartHistory.length - MAX_HISTORY);
+  }
+  persistRestartState();
+  return { success: event.success, error: event.error, event, crossCheckResult };
+}
+
+/** Preview of what executeRestart() would do for a detection right now */
+export interface RestartPlan {
+  condition: string;
+  requestedScope: RestartScope;
+  scope: RestartScope;
+  layers: Layer[];
+  nodes: string[];
+  notes: string[];
+  /** Guard that would block an automatic restart right now (manual restarts bypass it) */
+  blockedBy: string | null;
+  /** Ordered actions the restart would perform */
+  steps: PlannedAction[];
+  /** Set if walking the strategy failed (e.g. an unreachable reference node) */
+  error?: string;
+}
+
+/**
+ * Plan a restart without executing it or touching restart state.
+ *
+ * Walks the same strategy as executeRestart() with a recording executor.
+ * Read-only node API calls (reference lookups) are still made.
+ */
+export async function planRestart(config: Config, result: DetectionResult): Promise<RestartPlan> {
+  const escalated = applyEscalation(config, result);
+  const resolved = resolveRestartScope(config, escalated.result);
+  const notes = [...escalated.notes, ...resolved.notes];
+  if (resolved.skipReason) notes.push(resolved.skipReason);
+
+  const plan: RestartPlan = {
+    condition: result.condition,
+    requestedScope: result.restartScope,
+    scope: resolved.scope,
+    layers: resolved.layers,
+    nodes: result.affectedNodes ?? [],
+    notes,
+    blockedBy: checkRestartGuards(config) ?? escalated.suspendReason ?? null,
+    steps: [],
+  };
+
+  if (resolved.skipReason || resolved.scope === 'none' || escalated.suspendReason) return plan;
+
+  const exec = createDryRunExecutor(undefined, true);
+  try {
+    await runStrategy(config, escalated.result, resolved, exec);
+  } catch (err) {
+    plan.error = err instanceof Error ? err.message : String(err);
+  }
+  plan.steps = exec.plannedActions;
+  return plan;
 }
 
 /**
@@ -401,9 +779,94 @@ export async function executeRestart(
 export function resetRestartState(): void {
   consecutiveFailures = 0;
   givenUp = false;
+  persistRestartState();
   log('[Restart] Restart state reset — automatic restarts re-enabled');
 }
 
+// ============================================================================
+// State persistence
+// ============================================================================
+
+/**
+ * Set the store used to persist restart state (null disables persistence).
+ */
+export function configureRestartStateStore(store: RestartStateStore | null): void {
+  stateStore = store;
+}
+
+/**
+ * Set the verifier run after every live restart (null disables verification).
+ */
+export function configureRestartVerifier(verifier: RestartVerifier | null): void {
+  restartVerifier = verifier;
+}
+
+/**
+ * Set the cross-check run before restarts decided on cached health data
+ * (null disables it).
+ */
+export function configureSourceCrossChecker(checker: SourceCrossChecker | null): void {
+  sourceCrossChecker = checker;
+}
+
+/**
+ * Load persisted restart state, replacing the in-memory state.
+ * Call once at startup, before the first health check.
+ */
+export async function rehydrateRestartState(): Promise<void> {
+  if (!stateStore) return;
+
+  try {
+    const saved = await stateStore.load();
+    if (!saved) {
+      log(`[Restart] No saved restart state in ${stateStore.name}`);
+      return;
+    }
+
+    restartHistory.splice(0, restartHistory.length, ...saved.restartHistory.slice(-MAX_HISTORY));
+    consecutiveFailures = saved.consecutiveFailures;
+    givenUp = saved.givenUp;
+    log(`[Restart] Restored restart state from ${stateStore.name} (saved ${saved.savedAt}): ${restartHistory.length} restart(s), ${consecutiveFailures} consecutive failure(s)${givenUp ? ', restarts SUSPENDED' : ''}`);
+  } catch (err) {
+    log(`[Restart] Failed to load restart state from ${stateStore.name}: ${err}`);
+  }
+}
+
+/**
+ * Save restart state in the background. Failures are logged, never thrown —
+ * persistence must not block or break a restart.
+ */
+function persistRestartState(): void {
+  const store = stateStore;
+  if (!store) return;
+
+  const state = {
+    version: 1 as const,
+    savedAt: new Date().toISOString(),
+    restartHistory: [...restartHistory],
+    consecutiveFailures,
+    givenUp,
+  };
+
+  pendingSave = pendingSave
+    .then(() => store.save(state))
+    .catch(err => log(`[Restart] Failed to save restart state to ${store.name}: ${err}`));
+}
+
+/**
+ * Wait for in-flight state saves (e.g. before shutdown).
+ */
+export function flushRestartState(): Promise<void> {
+  return pendingSave;
+}
+
+/**
+ * Check if a restart is currently executing.
+ */
+export function isRestartInProgress(): boolean {
+  return restartInProgress;
+}
+
 /**
  * Check if automatic restarts are suspended.
  */
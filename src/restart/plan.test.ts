@@ -0,0 +1,179 @@
+/**
+ * Restart Plan Preview Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { previewRestartPlan } from './plan.js';
+import { StallTracker } from '../conditions/snapshots-stopped.js';
+import { DetectionDebouncer } from '../conditions/debounce.js';
+import { resetLagTracker } from '../conditions/ordinal-lag.js';
+import { planRestart, resetRestartState } from './orchestrator.js';
+import { mergeDetections } from './remediation.js';
+import type { Config } from '../config.js';
+import type { HealthSnapshot, Layer, LayerHealth } from '../types.js';
+import type { HealthReader } from '../services/health-reader.js';
+
+vi.mock('../services/ssh.js', () => ({
+  sshExec: vi.fn().mockRejectedValue(new Error('no ssh in tests')),
+  dockerControl: vi.fn(() => { throw new Error('dockerControl called by plan preview'); }),
+  killLayerProcess: vi.fn(() => { throw new Error('killLayerProcess called by plan preview'); }),
+}));
+
+vi.mock('../services/node-api.js', () => ({
+  getNodeInfo: vi.fn().mockResolvedValue({ state: 'Ready', id: 'ref-peer', host: '10.0.0.1', publicPort: 9200, p2pPort: 9201 }),
+  getClusterInfo: vi.fn().mockResolvedValue([]),
+  getLatestOrdinal: vi.fn().mockResolvedValue(-1),
+  checkLayerHealth: vi.fn().mockResolvedValue([]),
+}));
+
+vi.mock('../logger.js', () => ({
+  log: vi.fn(),
+}));
+
+function makeConfig(): Config {
+  return {
+    nodes: [
+      { ip: '10.0.0.1', name: 'node1' },
+      { ip: '10.0.0.2', name: 'node2' },
+      { ip: '10.0.0.3', name: 'node3' },
+    ],
+    ports: { gl0: 9000, ml0: 9200, cl1: 9300, dl1: 9400 },
+    cliPorts: { gl0: 9002, ml0: 9202, cl1: 9302, dl1: 9402 },
+    p2pPorts: { gl0: 9001, ml0: 9201, cl1: 9301, dl1: 9401 },
+    snapshotStallMinutes: 4,
+    restartCooldownMinutes: 10,
+    maxRestartsPerHour: 6,
+    maxConsecutiveFailures: 3,
+    managedLayers: ['gl0', 'ml0', 'dl1'],
+  } as Config;
+}
+
+function layer(l: Layer, overrides: Partial<LayerHealth> = {}): LayerHealth {
+  return { layer: l, state: 'Ready', ordinal: 100, reachable: true, clusterSize: 3, clusterHash: 'same', ...overrides };
+}
+
+function fakeReader(snapshot: HealthSnapshot): HealthReader {
+  return { getHealthSnapshot: async () => snapshot } as unknown as HealthReader;
+}
+
+function makeSnapshot(ml0OnNode3: Partial<LayerHealth>): HealthSnapshot {
+  return {
+    timestamp: new Date(),
+    stale: false,
+    source: 'redis',
+    nodes: ['10.0.0.1', '10.0.0.2', '10.0.0.3'].map((ip, i) => ({
+      ip,
+      name: `node${i + 1}`,
+      layers: [
+        layer('gl0'),
+        layer('ml0', i === 2 ? ml0OnNode3 : {}),
+        layer('cl1'),
+        layer('dl1'),
+      ],
+    })),
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  resetLagTracker();
+  resetRestartState();
+});
+
+describe('previewRestartPlan()', () => {
+  it('returns no restart when the metagraph is healthy', async () => {
+    const preview = await previewRestartPlan(makeConfig(), fakeReader(makeSnapshot({})), new StallTracker());
+    expect(preview.restart).toBeNull();
+    expect(preview.conditions.map(c => c.condition)).toContain('ForkedCluster');
+  });
+
+  it('evaluates nothing when no health source returned data', async () => {
+    const empty: HealthSnapshot = { timestamp: new Date(), nodes: [], stale: true, source: 'redis' };
+    const preview = await previewRestartPlan(makeConfig(), fakeReader(empty), new StallTracker());
+    expect(preview.restart).toBeNull();
+    expect(preview.conditions.map(c => [c.condition, c.detected])).toEqual([['NoHealthData', true]]);
+  });
+
+  it('escalates an ML0 problem to a full-metagraph plan with ordered steps', async () => {
+    const snapshot = makeSnapshot({ state: 'WaitingForDownload' });
+    const preview = await previewRestartPlan(makeConfig(), fakeReader(snapshot), new StallTracker());
+
+    const plan = preview.restart!;
+    expect(plan.condition).toBe('UnhealthyNodes');
+    expect(plan.requestedScope).toBe('full-layer');
+    expect(plan.scope).toBe('full-metagraph');
+    expect(plan.notes).toContain('ML0 affected → escalating to full-metagraph restart');
+    expect(plan.blockedBy).toBeNull();
+
+    // ML0 and DL1 are stopped on every node before anything starts; GL0 is not affected and keeps running
+    const firstStartStep = plan.steps.findIndex(s => s.type === 'docker');
+    const kills = plan.steps.slice(0, firstStartStep).filter(s => s.type === 'kill');
+    expect(kills).toHaveLength(6);
+    expect(plan.steps.some(s => s.layer === 'gl0')).toBe(false);
+
+    const firstStart = plan.steps.find(s => s.type === 'docker');
+    expect(firstStart).toMatchObject({ node: '10.0.0.1', container: 'ml0', action: 'start' });
+
+    const ml0Joins = plan.steps.filter(s => s.type === 'join' && s.layer === 'ml0');
+    expect(ml0Joins.map(j => j.node)).toEqual(['10.0.0.2', '10.0.0.3']);
+    expect(ml0Joins[0].reference?.id).toBe('ref-peer');
+
+    const firstWait = plan.steps.find(s => s.type === 'wait-ready');
+    expect(firstWait?.timeoutMs).toBe(180_000);
+  });
+
+  it('restarts GL0 when a full-metagraph restart covers it', async () => {
+    const snapshot = makeSnapshot({ state: 'WaitingForDownload' });
+    snapshot.nodes[0].layers[0] = layer('gl0', { state: 'Offline' });
+    const preview = await previewRestartPlan(makeConfig(), fakeReader(snapshot), new StallTracker());
+
+    const plan = preview.restart!;
+    expect(plan.scope).toBe('full-metagraph');
+    expect(plan.layers).toEqual(['gl0', 'ml0', 'dl1']);
+    const starts = plan.steps.filter(s => s.type === 'docker' && s.action === 'start');
+    expect(starts[0].container).toBe('gl0');
+    expect(starts.map(s => s.container)).toEqual(expect.arrayContaining(['gl0', 'ml0', 'dl1']));
+  });
+
+  it('holds back detections that are still pending confirmation', async () => {
+    const debouncer = new DetectionDebouncer();
+    const config = { ...makeConfig(), conditions: { UnhealthyNodes: { confirmCycles: 2, windowCycles: 3 } } };
+    const preview = await previewRestartPlan(config, fakeReader(makeSnapshot({ state: 'WaitingForDownload' })), new StallTracker(), debouncer);
+
+    expect(preview.restart).toBeNull();
+    const unhealthy = preview.conditions.find(c => c.condition === 'UnhealthyNodes');
+    expect(unhealthy?.confirmation).toMatchObject({ state: 'pending', hits: 1, required: 2 });
+    expect(debouncer.statuses()).toEqual([]);
+  });
+
+  it('uses per-node container names and ports', async () => {
+    const config = makeConfig();
+    config.nodes[0].ports = { ml0: { p2p: 19201 } };
+    config.nodes[2].containers = { ml0: 'ml0-node3' };
+
+    const preview = await previewRestartPlan(config, fakeReader(makeSnapshot({ state: 'WaitingForDownload' })), new StallTracker());
+    const join = preview.restart!.steps.find(s => s.type === 'join' && s.layer === 'ml0' && s.node === '10.0.0.3');
+
+    expect(join).toMatchObject({ container: 'ml0-node3', reference: { ip: '10.0.0.1', p2pPort: 19201 } });
+  });
+
+  it('restarts merged individual-node detections only on their own layers', async () => {
+    const { detection } = mergeDetections([
+      { detected: true, condition: 'OrdinalLag', details: '', restartScope: 'individual-node', affectedLayers: ['dl1'], affectedNodes: ['10.0.0.1'] },
+      { detected: true, condition: 'ForkedCluster', details: '', restartScope: 'individual-node', affectedLayers: ['gl0'], affectedNodes: ['10.0.0.2'] },
+    ]);
+
+    const plan = await planRestart(makeConfig(), detection!);
+    const restarted = plan.steps.filter(s => s.type === 'kill').map(s => [s.node, s.container]);
+
+    expect(plan.scope).toBe('individual-node');
+    expect(restarted).toEqual([['10.0.0.2', 'gl0'], ['10.0.0.1', 'dl1']]);
+  });
+
+  it('does not advance the live stall tracker', async () => {
+    const tracker = new StallTracker();
+    tracker.update('10.0.0.1', 'ml0', 50);
+    await previewRestartPlan(makeConfig(), fakeReader(makeSnapshot({})), tracker);
+    expect(tracker.lastOrdinal('10.0.0.1', 'ml0')).toBe(50);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Restart Plan Preview
+ *
+ * Answers "what would the watchdog do right now?" for GET /api/plan.
+ *
+ * Takes a fresh health snapshot, evaluates every condition from the daemon
+ * loop, merges the detections into the remediation the loop would act on,
+ * and walks its restart strategy with a recording executor. Nothing is restarted and no tracker or
+ * orchestrator state is modified — stateful detectors and the debouncer run
+ * against copies.
+ */
+
+import type { Config } from '../config.js';
+import type { DetectionResult, HealthSnapshot } from '../types.js';
+import type { HealthReader } from '../services/health-reader.js';
+import type { StallTracker } from '../conditions/snapshots-stopped.js';
+import { detectNoHealthDataFromSnapshot } from '../conditions/no-health-data.js';
+import { cloneLagTracker } from '../conditions/ordinal-lag.js';
+import { conditionRegistry, conditionDebounce, detectCondition, type ConditionContext } from '../conditions/registry.js';
+import type { DetectionDebouncer, DebounceStatus } from '../conditions/debounce.js';
+import { planRestart, type RestartPlan } from './orchestrator.js';
+import { mergeDetections } from './remediation.js';
+
+export interface ConditionEvaluation extends DetectionResult {
+  /** Set if the detector threw */
+  error?: string;
+  /** Debounce state of a detection (pending detections are not acted on) */
+  confirmation?: DebounceStatus;
+}
+
+export interface RestartPlanPreview {
+  generatedAt: string;
+  dryRun: boolean;
+  snapshot: Pick<HealthSnapshot, 'timestamp' | 'source' | 'stale'>;
+  /** Every condition evaluated, in loop order */
+  conditions: ConditionEvaluation[];
+  /** How the detections were merged into one remediation */
+  reasoning: string[];
+  /** The restart the loop would perform, or null if none is needed */
+  restart: RestartPlan | null;
+}
+
+/**
+ * Build a plan preview from a fresh snapshot.
+ */
+export async function previewRestartPlan(
+  config: Config,
+  healthReader: HealthReader,
+  stallTracker: StallTracker,
+  debouncer?: DetectionDebouncer,
+): Promise<RestartPlanPreview> {
+  const snapshot = await healthReader.getHealthSnapshot();
+
+  // Like the loop, evaluate nothing against an empty snapshot
+  const noData = detectNoHealthDataFromSnapshot(snapshot);
+  if (noData.detected) {
+    return {
+      generatedAt: new Date().toISOString(),
+      dryRun: config.dryRun ?? false,
+      snapshot: { timestamp: snapshot.timestamp, source: snapshot.source, stale: snapshot.stale },
+      conditions: [noData],
+      reasoning: [noData.details],
+      restart: null,
+    };
+  }
+
+  // cycle 1 includes the periodic conditions, matching the loop's first cycle
+  const ctx: ConditionContext = {
+    config,
+    snapshot,
+    cycle: 1,
+    stallTracker: stallTracker.clone(),
+    lagTracker: cloneLagTracker(),
+    results: new Map(),
+  };
+
+  // Without a debouncer every detection counts as confirmed
+  const confirmations = debouncer?.clone();
+
+  const evaluations: ConditionEvaluation[] = [];
+  for (const condition of conditionRegistry.due(config, ctx.cycle)) {
+    try {
+      const result = await detectCondition(condition, ctx);
+      const confirmation = confirmations?.observe(result, conditionDebounce(condition, config));
+      evaluations.push(confirmation ? { ...result, confirmation } : result);
+    } catch (err) {
+      evaluations.push({
+        detected: false,
+        condition: condition.name,
+        details: '',
+        restartScope: 'none',
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  // The loop merges every confirmed detection into one remediation
+  const remediation = mergeDetections(evaluations.filter(e => !e.error && e.confirmation?.state !== 'pending'));
+
+  return {
+    generatedAt: new Date().toISOString(),
+    dryRun: config.dryRun ?? false,
+    snapshot: { timestamp: snapshot.timestamp, source: snapshot.source, stale: snapshot.stale },
+    conditions: evaluations,
+    reasoning: remediation.reasoning,
+    restart: remediation.detection ? await planRestart(config, remediation.detection) : null,
+  };
+}
@@ -0,0 +1,136 @@
+/**
+ * Cluster Recovery Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { parseRecoverArgs, analyzeLayer, recoverCluster, type RecoverOptions } from './recovery.js';
+import type { Config } from '../config.js';
+
+vi.mock('../services/ssh.js', () => ({
+  sshExec: vi.fn(() => { throw new Error('sshExec called'); }),
+  dockerControl: vi.fn(() => { throw new Error('dockerControl called'); }),
+  killLayerProcess: vi.fn(() => { throw new Error('killLayerProcess called'); }),
+  shellEscape: (s: string) => s,
+}));
+
+vi.mock('../services/node-api.js', () => ({
+  getNodeInfo: vi.fn(),
+  getClusterInfo: vi.fn().mockResolvedValue([]),
+}));
+
+vi.mock('../logger.js', () => ({
+  log: vi.fn(),
+}));
+
+import { getNodeInfo } from '../services/node-api.js';
+import { killLayerProcess } from '../services/ssh.js';
+
+const mockNodeInfo = vi.mocked(getNodeInfo);
+
+function makeConfig(dryRun: boolean): Config {
+  return {
+    nodes: [
+      { ip: '10.0.0.1', name: 'node1' },
+      { ip: '10.0.0.2', name: 'node2' },
+      { ip: '10.0.0.3', name: 'node3' },
+    ],
+    ports: { gl0: 9000, ml0: 9200, cl1: 9300, dl1: 9400 },
+    cliPorts: { gl0: 9002, ml0: 9202, cl1: 9302, dl1: 9402 },
+    p2pPorts: { gl0: 9001, ml0: 9201, cl1: 9301, dl1: 9401 },
+    dryRun,
+  } as Config;
+}
+
+/** Node info where each node reports the given cluster session (null = unreachable) */
+function sessions(byIp: Record<string, string | null>): void {
+  mockNodeInfo.mockImplementation(async (ip, port) => {
+    const session = byIp[ip];
+    if (session === null) return null;
+    return { state: 'Ready', id: `peer-${ip}`, host: ip, publicPort: port, p2pPort: port + 1, clusterSession: session };
+  });
+}
+
+const dl1Only: RecoverOptions = { layers: ['dl1'], wipeAll: false, yes: false };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('parseRecoverArgs()', () => {
+  it('defaults to every layer and requires confirmation', () => {
+    expect(parseRecoverArgs(['node', 'index.js', 'recover'], {})).toEqual({
+      layers: ['gl0', 'ml0', 'cl1', 'dl1'], wipeAll: false, yes: false,
+    });
+  });
+
+  it('reads --layer, --wipe-all and --yes', () => {
+    expect(parseRecoverArgs(['recover', '--layer', 'dl1', '--wipe-all', '--yes'], {})).toEqual({
+      layers: ['dl1'], wipeAll: true, yes: true,
+    });
+    expect(parseRecoverArgs(['recover', '--layer=ml0'], {}).layers).toEqual(['ml0']);
+    expect(parseRecoverArgs(['recover'], { CONFIRM: 'true' }).yes).toBe(true);
+  });
+
+  it('rejects unknown layers', () => {
+    expect(() => parseRecoverArgs(['recover', '--layer', 'xl1'], {})).toThrow('Unknown layer "xl1"');
+  });
+});
+
+describe('analyzeLayer()', () => {
+  it('splits nodes by cluster session', async () => {
+    sessions({ '10.0.0.1': 'a', '10.0.0.2': 'a', '10.0.0.3': 'b' });
+    const analysis = await analyzeLayer(makeConfig(true), 'dl1');
+    expect(analysis).toMatchObject({
+      majoritySession: 'a',
+      majorityNodes: ['10.0.0.1', '10.0.0.2'],
+      minorityNodes: ['10.0.0.3'],
+      unreachable: [],
+    });
+  });
+
+  it('keeps unreachable nodes out of the minority', async () => {
+    sessions({ '10.0.0.1': 'a', '10.0.0.2': 'a', '10.0.0.3': null });
+    const analysis = await analyzeLayer(makeConfig(true), 'dl1');
+    expect(analysis.minorityNodes).toEqual([]);
+    expect(analysis.unreachable).toEqual(['10.0.0.3']);
+  });
+});
+
+describe('recoverCluster()', () => {
+  it('plans wipe and rejoin of a single minority node in dry-run mode', async () => {
+    sessions({ '10.0.0.1': 'a', '10.0.0.2': 'a', '10.0.0.3': 'b' });
+    const confirm = vi.fn();
+    const publishRecovery = vi.fn();
+
+    const [result] = await recoverCluster(makeConfig(true), dl1Only, { confirm, publisher: { publishRecovery } });
+
+    expect(confirm).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ layer: 'dl1', status: 'planned', minorityNodes: ['10.0.0.3'], peer: '10.0.0.1' });
+    expect(result.plannedActions.map(a => a.type)).toEqual(['kill', 'ssh', 'docker', 'join', 'wait-ready']);
+    expect(result.plannedActions[1].command).toBe('rm -rf /opt/ottochain/dl1-data/*');
+    expect(publishRecovery).toHaveBeenCalledWith(expect.objectContaining({ layer: 'dl1', dryRun: true, success: true }));
+  });
+
+  it('does nothing destructive when the operator declines', async () => {
+    sessions({ '10.0.0.1': 'a', '10.0.0.2': 'a', '10.0.0.3': 'b' });
+    const confirm = vi.fn().mockResolvedValue(false);
+
+    const [result] = await recoverCluster(makeConfig(false), dl1Only, { confirm });
+
+    expect(confirm).toHaveBeenCalledWith('Recover dl1: stop 10.0.0.3, wipe /opt/ottochain/dl1-data and join it to 10.0.0.1? [y/N] ');
+    expect(result.status).toBe('declined');
+    expect(killLayerProcess).not.toHaveBeenCalled();
+  });
+
+  it('leaves forks with several minority nodes alone', async () => {
+    sessions({ '10.0.0.1': 'a', '10.0.0.2': 'b', '10.0.0.3': 'c' });
+    const [result] = await recoverCluster(makeConfig(true), dl1Only, { confirm: vi.fn() });
+    expect(result.status).toBe('severe-fork');
+    expect(result.plannedActions).toEqual([]);
+  });
+
+  it('refuses --wipe-all', async () => {
+    await expect(recoverCluster(makeConfig(true), { ...dl1Only, wipeAll: true }, { confirm: vi.fn() }))
+      .rejects.toThrow('release-scratch.yml');
+  });
+});
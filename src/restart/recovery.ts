@@ -0,0 +1,258 @@
+/**
+ * Cluster Recovery (`recover` subcommand)
+ *
+ * Port of the former scripts/recover-cluster.sh, driven by the watchdog
+ * config instead of hardcoded IPs:
+ *
+ * 1. For each layer, compare the cluster session every node reports
+ * 2. Pick the majority session — reachable nodes outside it are the minority
+ * 3. Stop the minority node, wipe its layer data directory and start it again
+ * 4. Join it to a Ready majority peer
+ *
+ * Forks with more than one minority node are reported but left alone:
+ * rejoining several nodes rarely survives tessellation's session handling,
+ * so restart the whole layer instead. Wiping is destructive and needs an
+ * explicit confirmation (the prompt, `--yes` or CONFIRM=true). As in the
+ * script, `--wipe-all` is refused — wiping every node is a redeploy.
+ *
+ * Usage:
+ *   npx tsx src/index.ts recover [--dry-run] [--layer gl0|ml0|cl1|dl1|all] [--yes] [--config f]
+ */
+
+import { createInterface } from 'readline/promises';
+import type { Config } from '../config.js';
+import { DEFAULT_FORK_DATA_DIR, findNode, loadConfig, nodePort } from '../config.js';
+import type { Layer, PlannedAction } from '../types.js';
+import { ALL_LAYERS } from '../types.js';
+import { findMajority, type NodePOV } from '../conditions/forked-cluster.js';
+import { getClusterInfo, getNodeInfo } from '../services/node-api.js';
+import { EventPublisher } from '../services/events.js';
+import { createDryRunExecutor, createLiveExecutor } from './executor.js';
+import { findReadyPeer, rejoinNode } from './orchestrator.js';
+import { log } from '../logger.js';
+
+export interface RecoverOptions {
+  layers: Layer[];
+  wipeAll: boolean;
+  /** Skip the confirmation prompt */
+  yes: boolean;
+}
+
+/** One node's view of a layer */
+export interface NodeSession {
+  ip: string;
+  state: string;
+  session: string | null;
+  clusterSize: number;
+}
+
+export interface LayerAnalysis {
+  layer: Layer;
+  nodes: NodeSession[];
+  majoritySession: string;
+  majorityNodes: string[];
+  minorityNodes: string[];
+  unreachable: string[];
+}
+
+export type RecoveryStatus = 'healthy' | 'severe-fork' | 'declined' | 'planned' | 'recovered' | 'failed';
+
+export interface LayerRecovery {
+  layer: Layer;
+  status: RecoveryStatus;
+  minorityNodes: string[];
+  peer?: string;
+  error?: string;
+  plannedActions: PlannedAction[];
+}
+
+export interface RecoverDeps {
+  /** Ask the operator a yes/no question */
+  confirm: (question: string) => Promise<boolean>;
+  publisher?: Pick<EventPublisher, 'publishRecovery'>;
+}
+
+/**
+ * Parse the `recover` flags. Throws on an unknown layer.
+ */
+export function parseRecoverArgs(argv: string[], env: Record<string, string | undefined> = process.env): RecoverOptions {
+  const inline = argv.find(a => a.startsWith('--layer='));
+  const i = argv.indexOf('--layer');
+  const layer = inline?.slice('--layer='.length) ?? (i >= 0 ? argv[i + 1] : undefined) ?? env.TARGET_LAYER ?? 'all';
+
+  if (layer !== 'all' && !ALL_LAYERS.includes(layer as Layer)) {
+    throw new Error(`Unknown layer "${layer}" (expected ${ALL_LAYERS.join(', ')} or all)`);
+  }
+
+  return {
+    layers: layer === 'all' ? [...ALL_LAYERS] : [layer as Layer],
+    wipeAll: argv.includes('--wipe-all') || env.WIPE_ALL === 'true',
+    yes: argv.includes('--yes') || env.CONFIRM === 'true',
+  };
+}
+
+/**
+ * Read every node's cluster session on a layer and split the nodes into the
+ * majority session and the minority.
+ */
+export async function analyzeLayer(config: Config, layer: Layer): Promise<LayerAnalysis> {
+  const nodes: NodeSession[] = await Promise.all(config.nodes.map(async node => {
+    const port = nodePort(config, node, layer);
+    const [info, cluster] = await Promise.all([getNodeInfo(node.ip, port), getClusterInfo(node.ip, port)]);
+    return {
+      ip: node.ip,
+      state: info?.state ?? 'unreachable',
+      session: info?.clusterSession ?? null,
+      clusterSize: cluster.length,
+    };
+  }));
+
+  // Nodes without a session do not vote for the majority
+  const povs: NodePOV[] = nodes.map(n => ({ ip: n.ip, hash: n.session ?? '', reachable: n.session !== null }));
+  const { majorityHash, majorityNodes } = findMajority(povs);
+
+  return {
+    layer,
+    nodes,
+    majoritySession: majorityHash,
+    majorityNodes,
+    minorityNodes: nodes.filter(n => n.state !== 'unreachable' && !majorityNodes.includes(n.ip)).map(n => n.ip),
+    unreachable: nodes.filter(n => n.state === 'unreachable').map(n => n.ip),
+  };
+}
+
+async function recoverLayer(
+  config: Config,
+  analysis: LayerAnalysis,
+  options: RecoverOptions,
+  deps: RecoverDeps,
+): Promise<LayerRecovery> {
+  const { layer, minorityNodes } = analysis;
+  const recovery: LayerRecovery = { layer, status: 'failed', minorityNodes, plannedActions: [] };
+
+  if (minorityNodes.length > 1) {
+    log(`[Recover] SEVERE FORK: ${minorityNodes.length} nodes in the ${layer} minority — rejoining them is unlikely to succeed; restart the whole layer instead`);
+    return { ...recovery, status: 'severe-fork' };
+  }
+
+  const exec = config.dryRun ? createDryRunExecutor() : createLiveExecutor();
+  const ready = await findReadyPeer(config, layer, analysis.majorityNodes, exec);
+  if (!ready) {
+    return { ...recovery, error: `No Ready majority peer for ${layer} (majority: ${analysis.majorityNodes.join(', ') || 'none'})` };
+  }
+  recovery.peer = ready.peer.ip;
+
+  const [nodeIp] = minorityNodes;
+  const node = findNode(config, nodeIp)!;
+  const dataDir = (config.forkHealing?.dataDir ?? DEFAULT_FORK_DATA_DIR).replaceAll('{layer}', layer);
+
+  if (!exec.dryRun && !options.yes) {
+    const question = `Recover ${layer}: stop ${nodeIp}, wipe ${dataDir} and join it to ${ready.peer.ip}? [y/N] `;
+    if (!await deps.confirm(question)) {
+      log(`[Recover] ${layer} recovery declined`);
+      return { ...recovery, status: 'declined' };
+    }
+  }
+
+  try {
+    await rejoinNode(config, layer, node, ready.peer, ready.peerId, exec, dataDir);
+    recovery.status = exec.dryRun ? 'planned' : 'recovered';
+    exec.report(exec.dryRun
+      ? `[DRY-RUN] ${layer} recovery plan complete (${exec.plannedActions.length} action(s))`
+      : `✅ ${nodeIp} rejoined the ${layer} majority`);
+  } catch (err) {
+    recovery.error = err instanceof Error ? err.message : String(err);
+    exec.report(`${layer} recovery failed: ${recovery.error}`);
+  }
+
+  recovery.plannedActions = exec.plannedActions;
+  for (const action of exec.plannedActions) {
+    log(`[Recover] [DRY-RUN] ${action.step}. ${action.description}`);
+  }
+
+  await deps.publisher?.publishRecovery({
+    layer,
+    minorityNodes,
+    majorityNodes: analysis.majorityNodes,
+    peer: recovery.peer,
+    success: recovery.status === 'recovered' || recovery.status === 'planned',
+    dryRun: exec.dryRun,
+    error: recovery.error,
+    plannedActions: recovery.plannedActions,
+  });
+  return recovery;
+}
+
+/**
+ * Analyze the selected layers and recover every fork with a single minority node.
+ */
+export async function recoverCluster(config: Config, options: RecoverOptions, deps: RecoverDeps): Promise<LayerRecovery[]> {
+  if (options.wipeAll) {
+    throw new Error('--wipe-all would destroy all cluster state — use the release-scratch.yml workflow for a full redeploy');
+  }
+
+  log(`[Recover] Nodes: ${config.nodes.map(n => n.ip).join(', ')}${config.dryRun ? ' (DRY-RUN)' : ''}`);
+  const results: LayerRecovery[] = [];
+
+  for (const layer of options.layers) {
+    const analysis = await analyzeLayer(config, layer);
+    log(`[Recover] ${layer}:`);
+    for (const n of analysis.nodes) {
+      log(`[Recover]   ${n.ip}: state=${n.state} session=${n.session ?? 'null'} cluster_size=${n.clusterSize}`);
+    }
+
+    if (analysis.minorityNodes.length === 0) {
+      log(`[Recover] ${layer} healthy — all reachable nodes in session ${analysis.majoritySession || 'none'}`);
+      results.push({ layer, status: 'healthy', minorityNodes: [], plannedActions: [] });
+      continue;
+    }
+
+    log(`[Recover] ${layer} FORKED — majority session ${analysis.majoritySession} (${analysis.majorityNodes.join(', ')}), minority: ${analysis.minorityNodes.join(', ')}`);
+    results.push(await recoverLayer(config, analysis, options, deps));
+  }
+
+  return results;
+}
+
+async function promptYesNo(question: string): Promise<boolean> {
+  if (!process.stdin.isTTY) {
+    log('[Recover] No terminal to confirm on — rerun with --yes (or CONFIRM=true) to proceed');
+    return false;
+  }
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    return /^y(es)?$/i.test((await rl.question(question)).trim());
+  } finally {
+    rl.close();
+  }
+}
+
+/**
+ * Entry point for `recover`. Returns the process exit code: 1 if the
+ * arguments are invalid or any recovery failed, 0 otherwise.
+ */
+export async function runRecoverCommand(argv: string[] = process.argv): Promise<number> {
+  let options: RecoverOptions;
+  try {
+    options = parseRecoverArgs(argv);
+  } catch (err) {
+    console.error(err instanceof Error ? err.message : String(err));
+    return 1;
+  }
+
+  const config = loadConfig(argv);
+  const publisher = new EventPublisher(config);
+  try {
+    const results = await recoverCluster(config, options, { confirm: promptYesNo, publisher });
+    const forked = results.filter(r => r.status !== 'healthy');
+    log(forked.length === 0
+      ? '[Recover] ✅ No forks detected'
+      : `[Recover] Done: ${forked.map(r => `${r.layer} ${r.status}${r.error ? ` (${r.error})` : ''}`).join(', ')}`);
+    return results.some(r => r.status === 'failed') ? 1 : 0;
+  } catch (err) {
+    console.error(err instanceof Error ? err.message : String(err));
+    return 1;
+  } finally {
+    await publisher.close();
+  }
+}
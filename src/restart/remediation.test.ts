@@ -0,0 +1,107 @@
+/**
+ * Remediation Merge Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mergeDetections } from './remediation.js';
+import type { DetectionResult } from '../types.js';
+
+function detection(overrides: Partial<DetectionResult>): DetectionResult {
+  return { detected: true, condition: 'Test', details: 'broken', restartScope: 'full-layer', ...overrides };
+}
+
+describe('mergeDetections()', () => {
+  it('returns no remediation when nothing calls for a restart', () => {
+    const remediation = mergeDetections([
+      detection({ detected: false, restartScope: 'none' }),
+      detection({ condition: 'HypergraphHealth', restartScope: 'none' }),
+    ]);
+    expect(remediation.detection).toBeNull();
+    expect(remediation.detectionOnly).toEqual(['HypergraphHealth']);
+    expect(remediation.reasoning).toEqual(['HypergraphHealth: detection only — no restart']);
+  });
+
+  it('passes a single detection through unchanged', () => {
+    const only = detection({ condition: 'ForkedCluster', affectedLayers: ['dl1'] });
+    expect(mergeDetections([only]).detection).toBe(only);
+  });
+
+  it('lets the widest scope win and covers the narrower detections', () => {
+    const remediation = mergeDetections([
+      detection({ condition: 'ForkedCluster', details: 'dl1 fork', affectedLayers: ['dl1'], affectedNodes: ['10.0.0.3'] }),
+      detection({
+        condition: 'SnapshotsStopped',
+        details: 'ML0 stalled',
+        restartScope: 'full-metagraph',
+        affectedLayers: ['ml0', 'cl1', 'dl1'],
+        affectedNodes: ['10.0.0.1', '10.0.0.2', '10.0.0.3'],
+      }),
+    ]);
+
+    expect(remediation.detection).toEqual({
+      detected: true,
+      condition: 'SnapshotsStopped',
+      details: 'SnapshotsStopped: ML0 stalled; ForkedCluster: dl1 fork',
+      restartScope: 'full-metagraph',
+      affectedLayers: ['ml0', 'cl1', 'dl1'],
+      affectedNodes: ['10.0.0.1', '10.0.0.2', '10.0.0.3'],
+      mergedConditions: ['SnapshotsStopped', 'ForkedCluster'],
+    });
+    expect(remediation.reasoning).toEqual([
+      'SnapshotsStopped: full-metagraph (layers ml0, cl1, dl1; nodes 10.0.0.1, 10.0.0.2, 10.0.0.3) — widest scope, takes priority',
+      'ForkedCluster: full-layer (layers dl1; nodes 10.0.0.3) — already covered by the full-metagraph restart',
+      'Remediation: full-metagraph restart for SnapshotsStopped + ForkedCluster (layers ml0, cl1, dl1; nodes 10.0.0.1, 10.0.0.2, 10.0.0.3)',
+    ]);
+  });
+
+  it('keeps individual-node detections on different layers to their own node/layer pairs', () => {
+    const remediation = mergeDetections([
+      detection({ condition: 'OrdinalLag', restartScope: 'individual-node', affectedLayers: ['dl1'], affectedNodes: ['10.0.0.1'] }),
+      detection({ condition: 'ForkedCluster', restartScope: 'individual-node', affectedLayers: ['gl0'], affectedNodes: ['10.0.0.2'] }),
+    ]);
+
+    expect(remediation.detection).toMatchObject({
+      restartScope: 'individual-node',
+      affectedLayers: ['gl0', 'dl1'],
+      affectedNodes: ['10.0.0.1', '10.0.0.2'],
+      nodesByLayer: { gl0: ['10.0.0.2'], dl1: ['10.0.0.1'] },
+    });
+    expect(remediation.reasoning.at(-1)).toBe(
+      'Remediation: individual-node restart for OrdinalLag + ForkedCluster (gl0 on 10.0.0.2; dl1 on 10.0.0.1)',
+    );
+  });
+
+  it('unions layers and nodes, deduplicated, for detections of the same scope', () => {
+    const remediation = mergeDetections([
+      detection({ condition: 'UnhealthyNodes', affectedLayers: ['dl1'], affectedNodes: ['10.0.0.2'] }),
+      detection({ condition: 'ForkedCluster', affectedLayers: ['gl0', 'dl1'], affectedNodes: ['10.0.0.2', '10.0.0.3'] }),
+      detection({ condition: 'OrdinalLag', restartScope: 'individual-node', affectedLayers: ['cl1'], affectedNodes: ['10.0.0.1'] }),
+    ]);
+
+    expect(remediation.detection).toMatchObject({
+      condition: 'UnhealthyNodes',
+      restartScope: 'full-layer',
+      affectedLayers: ['gl0', 'cl1', 'dl1'],
+      affectedNodes: ['10.0.0.2', '10.0.0.3', '10.0.0.1'],
+    });
+    expect(remediation.reasoning[1]).toContain('ForkedCluster: full-layer (layers gl0, dl1; nodes 10.0.0.2, 10.0.0.3) — merged into the full-layer restart');
+    expect(remediation.reasoning[2]).toContain('OrdinalLag: individual-node (layers cl1; nodes 10.0.0.1) — escalated into the full-layer restart');
+  });
+
+  it('keeps the fork partition when merged detections only touch its minority', () => {
+    const fork = { layer: 'dl1' as const, majorityNodes: ['10.0.0.1', '10.0.0.2'], minorityNodes: ['10.0.0.3'] };
+    const heal = { restartScope: 'individual-node' as const, affectedLayers: ['dl1' as const], affectedNodes: ['10.0.0.3'] };
+
+    const same = mergeDetections([
+      detection({ condition: 'ForkedCluster', ...heal, fork }),
+      detection({ condition: 'SessionMismatch', ...heal, fork }),
+    ]);
+    expect(same.detection?.fork).toEqual(fork);
+
+    const wider = mergeDetections([
+      detection({ condition: 'ForkedCluster', ...heal, fork }),
+      detection({ condition: 'OrdinalLag', ...heal, affectedNodes: ['10.0.0.2'] }),
+    ]);
+    expect(wider.detection?.fork).toBeUndefined();
+  });
+});
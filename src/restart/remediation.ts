@@ -0,0 +1,134 @@
+/**
+ * Remediation Merge
+ *
+ * The loop evaluates every condition before acting. This module folds all
+ * detections that call for a restart into a single remediation, so problems
+ * found in the same cycle are fixed by one restart instead of one per cycle:
+ *
+ * - Priority: the detection with the widest scope wins (full-metagraph >
+ *   full-layer > individual-node); ties go to the condition evaluated first.
+ * - Subsumption: the merged restart runs at the winning scope, so narrower
+ *   detections are covered by it (e.g. a full-metagraph restart covers a
+ *   full-layer DL1 fork).
+ * - Deduplication: for full-layer and wider restarts, affected layers and
+ *   nodes are the union of all detections. An individual-node restart keeps
+ *   the nodes per layer instead, so a lagging DL1 node and a forked GL0 node
+ *   restart only their own layer.
+ *
+ * Every decision is recorded as a line of reasoning for the log.
+ */
+
+import type { DetectionResult, Layer } from '../types.js';
+import { ALL_LAYERS, SCOPE_RANK } from '../types.js';
+
+export interface Remediation {
+  /** The detection to act on, or null when nothing calls for a restart */
+  detection: DetectionResult | null;
+  /** Conditions the restart covers, highest priority first */
+  covered: string[];
+  /** Detected conditions that only alert (restartScope: none) */
+  detectionOnly: string[];
+  /** Why the remediation looks the way it does, one line per decision */
+  reasoning: string[];
+}
+
+function describe(result: DetectionResult): string {
+  if (result.nodesByLayer) {
+    const pairs = Object.entries(result.nodesByLayer).map(([layer, ips]) => `${layer} on ${ips.join(', ')}`);
+    return ` (${pairs.join('; ')})`;
+  }
+  const parts: string[] = [];
+  if (result.affectedLayers?.length) parts.push(`layers ${result.affectedLayers.join(', ')}`);
+  if (result.affectedNodes?.length) parts.push(`nodes ${result.affectedNodes.join(', ')}`);
+  return parts.length > 0 ? ` (${parts.join('; ')})` : '';
+}
+
+/** Nodes a detection restarts on one of its layers */
+function nodesOn(result: DetectionResult, layer: Layer): string[] {
+  return result.nodesByLayer?.[layer] ?? result.affectedNodes ?? [];
+}
+
+/**
+ * Merge the cycle's detections into one remediation.
+ */
+export function mergeDetections(results: DetectionResult[]): Remediation {
+  const detected = results.filter(r => r.detected);
+  const detectionOnly = detected.filter(r => r.restartScope === 'none');
+  const reasoning = detectionOnly.map(r => `${r.condition}: detection only — no restart`);
+
+  // Stable sort: widest scope first, evaluation order within a scope
+  const ranked = detected
+    .filter(r => r.restartScope !== 'none')
+    .map((r, i) => ({ r, i }))
+    .sort((a, b) => SCOPE_RANK[b.r.restartScope] - SCOPE_RANK[a.r.restartScope] || a.i - b.i)
+    .map(({ r }) => r);
+
+  if (ranked.length === 0) {
+    return { detection: null, covered: [], detectionOnly: detectionOnly.map(r => r.condition), reasoning };
+  }
+
+  const [primary, ...others] = ranked;
+  const scope = primary.restartScope;
+  reasoning.push(`${primary.condition}: ${scope}${describe(primary)}${others.length > 0 ? ' — widest scope, takes priority' : ''}`);
+
+  const layers = new Set<Layer>();
+  const nodes = new Set<string>();
+  const nodesByLayer = new Map<Layer, Set<string>>();
+  const add = (result: DetectionResult): void => {
+    for (const l of result.affectedLayers ?? []) {
+      layers.add(l);
+      const onLayer = nodesByLayer.get(l) ?? new Set<string>();
+      for (const n of nodesOn(result, l)) onLayer.add(n);
+      nodesByLayer.set(l, onLayer);
+    }
+    for (const n of result.affectedNodes ?? []) nodes.add(n);
+  };
+  add(primary);
+
+  for (const other of others) {
+    const otherLayers = other.affectedLayers ?? [];
+    const otherNodes = other.affectedNodes ?? [];
+    const duplicate = scope === 'individual-node'
+      ? otherLayers.every(l => nodesOn(other, l).every(n => nodesByLayer.get(l)?.has(n)))
+      : otherLayers.every(l => layers.has(l)) && otherNodes.every(n => nodes.has(n));
+
+    let verdict: string;
+    if (duplicate) {
+      verdict = `already covered by the ${scope} restart`;
+    } else if (SCOPE_RANK[other.restartScope] < SCOPE_RANK[scope]) {
+      verdict = `escalated into the ${scope} restart`;
+    } else {
+      verdict = `merged into the ${scope} restart`;
+    }
+    reasoning.push(`${other.condition}: ${other.restartScope}${describe(other)} — ${verdict}`);
+    add(other);
+  }
+
+  // Individual-node restarts touch only the node/layer pairs that were detected
+  const perLayer = scope === 'individual-node'
+    && ALL_LAYERS.some(l => layers.has(l) && nodesByLayer.get(l)!.size < nodes.size);
+
+  const covered = ranked.map(r => r.condition);
+  const detection: DetectionResult = others.length === 0 ? primary : {
+    detected: true,
+    condition: primary.condition,
+    details: ranked.map(r => `${r.condition}: ${r.details}`).join('; '),
+    restartScope: scope,
+    affectedLayers: ALL_LAYERS.filter(l => layers.has(l)),
+    affectedNodes: [...nodes],
+    ...(perLayer ? {
+      nodesByLayer: Object.fromEntries(ALL_LAYERS.filter(l => layers.has(l)).map(l => [l, [...nodesByLayer.get(l)!]])),
+    } : {}),
+    mergedConditions: covered,
+  };
+
+  // Still a fork heal if the merged detections only touch the fork's minority
+  const fork = primary.fork;
+  if (detection !== primary && fork && [...layers].every(l => l === fork.layer)
+    && [...nodes].every(n => fork.minorityNodes.includes(n))) {
+    detection.fork = fork;
+  }
+
+  reasoning.push(`Remediation: ${scope} restart for ${covered.join(' + ')}${describe(detection)}`);
+  return { detection, covered, detectionOnly: detectionOnly.map(r => r.condition), reasoning };
+}
@@ -0,0 +1,133 @@
+/**
+ * Restart State Store Tests
+ *
+ * File backend round-trips, and orchestrator rehydration from a saved state.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileStateStore, type PersistedRestartState, type RestartStateStore } from './state-store.js';
+import {
+  configureRestartStateStore,
+  rehydrateRestartState,
+  isRestartSuspended,
+  getRestartState,
+  executeRestart,
+  resetRestartState,
+  flushRestartState,
+} from './orchestrator.js';
+import type { Config } from '../config.js';
+
+vi.mock('../logger.js', () => ({
+  log: vi.fn(),
+}));
+
+function makeState(overrides: Partial<PersistedRestartState> = {}): PersistedRestartState {
+  return {
+    version: 1,
+    savedAt: new Date().toISOString(),
+    restartHistory: [],
+    consecutiveFailures: 0,
+    givenUp: false,
+    ...overrides,
+  };
+}
+
+/** In-memory store for orchestrator tests */
+function memoryStore(initial: PersistedRestartState | null): RestartStateStore & { saved: PersistedRestartState[] } {
+  const saved: PersistedRestartState[] = [];
+  return {
+    name: 'memory',
+    saved,
+    load: async () => initial,
+    save: async state => { saved.push(state); },
+  };
+}
+
+describe('FileStateStore', () => {
+  let dir: string | null = null;
+
+  afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+    dir = null;
+  });
+
+  it('returns null when no file exists', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'watchdog-state-'));
+    const store = new FileStateStore(join(dir, 'missing.json'));
+    expect(await store.load()).toBeNull();
+  });
+
+  it('round-trips state, creating parent directories', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'watchdog-state-'));
+    const store = new FileStateStore(join(dir, 'nested', 'state.json'));
+    const state = makeState({ consecutiveFailures: 2, givenUp: true });
+
+    await store.save(state);
+    expect(await store.load()).toEqual(state);
+  });
+
+  it('rejects files in an unknown format', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'watchdog-state-'));
+    const path = join(dir, 'state.json');
+    await writeFile(path, JSON.stringify({ hello: 'world' }));
+    await expect(new FileStateStore(path).load()).rejects.toThrow('Unrecognized');
+  });
+});
+
+describe('Restart Orchestrator — state rehydration', () => {
+  afterEach(() => {
+    configureRestartStateStore(null);
+    resetRestartState();
+  });
+
+  it('restores suspension so no restart is attempted after a process restart', async () => {
+    configureRestartStateStore(memoryStore(makeState({ consecutiveFailures: 5, givenUp: true })));
+    await rehydrateRestartState();
+
+    expect(isRestartSuspended()).toBe(true);
+    expect(getRestartState().consecutiveFailures).toBe(5);
+
+    const outcome = await executeRestart({ maxConsecutiveFailures: 5 } as Config, {
+      detected: true,
+      condition: 'UnhealthyNodes',
+      details: 'test',
+      restartScope: 'full-layer',
+      affectedLayers: ['dl1'],
+    });
+    expect(outcome.success).toBe(false);
+    expect(outcome.error).toContain('suspended');
+  });
+
+  it('restores history so the cooldown still applies', async () => {
+    const recent = {
+      timestamp: new Date(Date.now() - 60_000).toISOString(),
+      scope: 'full-layer' as const,
+      condition: 'ForkedCluster',
+      layers: ['dl1' as const],
+      nodes: [],
+      success: true,
+    };
+    configureRestartStateStore(memoryStore(makeState({ restartHistory: [recent] })));
+    await rehydrateRestartState();
+
+    const outcome = await executeRestart(
+      { maxRestartsPerHour: 6, restartCooldownMinutes: 10, managedLayers: ['dl1'] } as Config,
+      { detected: true, condition: 'ForkedCluster', details: 'test', restartScope: 'full-layer', affectedLayers: ['dl1'] },
+    );
+    expect(outcome.error).toContain('Cooldown active');
+    expect(getRestartState().lastCondition).toBe('ForkedCluster');
+  });
+
+  it('persists state changes to the store', async () => {
+    const store = memoryStore(null);
+    configureRestartStateStore(store);
+    resetRestartState();
+    await flushRestartState();
+
+    expect(store.saved).toHaveLength(1);
+    expect(store.saved[0]).toMatchObject({ version: 1, consecutiveFailures: 0, givenUp: false });
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Restart State Store
+ *
+ * Persists the orchestrator's safety state (restart history, consecutive
+ * failures, suspension) so a watchdog process or container restart does not
+ * reset the rate limit, cooldown or given-up flag.
+ *
+ * Backends:
+ * - file:     JSON file (atomic write via temp file + rename)
+ * - postgres: single row in watchdog_state, reusing the EventPublisher pool
+ * - none:     in-memory only (previous behaviour)
+ */
+
+import { readFile, writeFile, rename, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import type pg from 'pg';
+import type { Config } from '../config.js';
+import type { RestartEvent } from '../types.js';
+import type { EventPublisher } from '../services/events.js';
+import { log } from '../logger.js';
+
+export type StateStoreKind = 'none' | 'file' | 'postgres';
+
+/** Serialized orchestrator state */
+export interface PersistedRestartState {
+  version: 1;
+  savedAt: string;
+  restartHistory: RestartEvent[];
+  consecutiveFailures: number;
+  givenUp: boolean;
+}
+
+export interface RestartStateStore {
+  /** Backend name for logs */
+  readonly name: string;
+  /** Load saved state, or null if nothing has been saved yet */
+  load(): Promise<PersistedRestartState | null>;
+  save(state: PersistedRestartState): Promise<void>;
+}
+
+function isPersistedState(value: unknown): value is PersistedRestartState {
+  const v = value as Partial<PersistedRestartState> | null;
+  return !!v
+    && v.version === 1
+    && Array.isArray(v.restartHistory)
+    && typeof v.consecutiveFailures === 'number'
+    && typeof v.givenUp === 'boolean';
+}
+
+/**
+ * JSON file backend.
+ */
+export class FileStateStore implements RestartStateStore {
+  readonly name: string;
+
+  constructor(private path: string) {
+    this.name = `file:${path}`;
+  }
+
+  async load(): Promise<PersistedRestartState | null> {
+    let raw: string;
+    try {
+      raw = await readFile(this.path, 'utf8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw err;
+    }
+
+    const parsed: unknown = JSON.parse(raw);
+    if (!isPersistedState(parsed)) {
+      throw new Error(`Unrecognized state file format in ${this.path}`);
+    }
+    return parsed;
+  }
+
+  async save(state: PersistedRestartState): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    const tmp = `${this.path}.tmp`;
+    await writeFile(tmp, JSON.stringify(state, null, 2), 'utf8');
+    await rename(tmp, this.path);
+  }
+}
+
+/** Row key for the orchestrator state in watchdog_state */
+const POSTGRES_STATE_KEY = 'restart-orchestrator';
+
+/**
+ * Postgres backend — one JSON row in a small key/value table.
+ */
+export class PostgresStateStore implements RestartStateStore {
+  readonly name = 'postgres';
+  private tableReady = false;
+
+  constructor(private pool: pg.Pool) {}
+
+  private async ensureTable(): Promise<void> {
+    if (this.tableReady) return;
+    await this.pool.query(
+      `CREATE TABLE IF NOT EXISTS watchdog_state (
+         key TEXT PRIMARY KEY,
+         value JSONB NOT NULL,
+         updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+       )`,
+    );
+    this.tableReady = true;
+  }
+
+  async load(): Promise<PersistedRestartState | null> {
+    await this.ensureTable();
+    const { rows } = await this.pool.query(
+      'SELECT value FROM watchdog_state WHERE key = $1',
+      [POSTGRES_STATE_KEY],
+    );
+    if (rows.length === 0) return null;
+
+    const value: unknown = rows[0].value;
+    if (!isPersistedState(value)) {
+      throw new Error('Unrecognized restart state format in watchdog_state');
+    }
+    return value;
+  }
+
+  async save(state: PersistedRestartState): Promise<void> {
+    await this.ensureTable();
+    await this.pool.query(
+      `INSERT INTO watchdog_state (key, value, updated_at) VALUES ($1, $2, NOW())
+       ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, updated_at = NOW()`,
+      [POSTGRES_STATE_KEY, JSON.stringify(state)],
+    );
+  }
+}
+
+/**
+ * Create the configured state store.
+ * Returns null for 'none', or when Postgres is requested but unavailable.
+ */
+export function createStateStore(config: Config, eventPublisher: EventPublisher): RestartStateStore | null {
+  switch (config.stateStore) {
+    case 'file':
+      return new FileStateStore(config.stateFilePath);
+    case 'postgres': {
+      const pool = eventPublisher.getPool();
+      if (!pool) {
+        log('[StateStore] Postgres state store requested but Postgres is not configured — state will not persist');
+        return null;
+      }
+      return new PostgresStateStore(pool);
+    }
+    case 'none':
+      return null;
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * Post-Restart Verification Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  checkReady,
+  checkClusterHashes,
+  checkOrdinals,
+  createRestartVerifier,
+} from './verification.js';
+import {
+  executeRestart,
+  configureRestartVerifier,
+  getConsecutiveFailures,
+  resetRestartState,
+} from './orchestrator.js';
+import type { Config } from '../config.js';
+import type { DetectionResult, HealthSnapshot, Layer, LayerHealth } from '../types.js';
+
+vi.mock('../services/ssh.js', () => ({
+  sshExec: vi.fn().mockResolvedValue({ stdout: '', stderr: '', code: 0 }),
+  dockerControl: vi.fn().mockResolvedValue(undefined),
+  killLayerProcess: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock('../services/node-api.js', () => ({
+  getNodeInfo: vi.fn().mockResolvedValue({ state: 'Ready', id: 'peer-1', host: '10.0.0.1', publicPort: 9400, p2pPort: 9401 }),
+}));
+
+vi.mock('../utils/sleep.js', () => ({
+  sleep: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock('../logger.js', () => ({
+  log: vi.fn(),
+}));
+
+function makeConfig(): Config {
+  return {
+    nodes: [
+      { ip: '10.0.0.1', name: 'node1' },
+      { ip: '10.0.0.2', name: 'node2' },
+      { ip: '10.0.0.3', name: 'node3' },
+    ],
+    ports: { gl0: 9000, ml0: 9200, cl1: 9300, dl1: 9400 },
+    cliPorts: { gl0: 9002, ml0: 9202, cl1: 9302, dl1: 9402 },
+    p2pPorts: { gl0: 9001, ml0: 9201, cl1: 9301, dl1: 9401 },
+    restartCooldownMinutes: 0,
+    maxRestartsPerHour: 100,
+    maxConsecutiveFailures: 3,
+    managedLayers: ['gl0', 'ml0', 'dl1'],
+  } as Config;
+}
+
+function layer(l: Layer, overrides: Partial<LayerHealth> = {}): LayerHealth {
+  return { layer: l, state: 'Ready', ordinal: 100, reachable: true, clusterSize: 3, clusterHash: 'same', ...overrides };
+}
+
+function snapshot(ml0Ordinal: number, node3Dl1: Partial<LayerHealth> = {}): HealthSnapshot {
+  return {
+    timestamp: new Date(),
+    stale: false,
+    source: 'direct',
+    nodes: ['10.0.0.1', '10.0.0.2', '10.0.0.3'].map((ip, i) => ({
+      ip,
+      name: `node${i + 1}`,
+      layers: [layer('ml0', { ordinal: ml0Ordinal }), layer('dl1', { ordinal: -1, ...(i === 2 ? node3Dl1 : {}) })],
+    })),
+  };
+}
+
+const forked: DetectionResult = {
+  detected: true,
+  condition: 'ForkedCluster',
+  details: 'DL1 forked',
+  restartScope: 'full-layer',
+  affectedLayers: ['dl1'],
+  affectedNodes: ['10.0.0.3'],
+};
+
+describe('verification checks', () => {
+  it('requires every node to be Ready on the restarted layers', () => {
+    const check = checkReady(makeConfig(), snapshot(100, { state: 'Observing' }), ['dl1']);
+    expect(check).toEqual({ check: 'ready', passed: false, details: 'Not Ready: dl1 on 10.0.0.3 (Observing)' });
+    expect(checkReady(makeConfig(), snapshot(100), ['ml0', 'dl1']).passed).toBe(true);
+  });
+
+  it('requires cluster hashes to agree', () => {
+    expect(checkClusterHashes(snapshot(100, { clusterHash: 'other' }), ['dl1'])).toMatchObject({
+      passed: false,
+      details: 'Cluster views disagree: dl1 (2 distinct cluster views)',
+    });
+    const noHashes = snapshot(100);
+    for (const n of noHashes.nodes) for (const l of n.layers) delete l.clusterHash;
+    expect(checkClusterHashes(noHashes, ['dl1'])).toMatchObject({ passed: true, details: 'No cluster hashes reported — skipped' });
+  });
+
+  it('checks ML0 ordinals advance when the restarted layers report none', () => {
+    expect(checkOrdinals(snapshot(100), snapshot(103), ['dl1'])).toEqual({
+      check: 'ordinals', passed: true, details: 'Ordinals advancing: ml0 100 → 103',
+    });
+    expect(checkOrdinals(snapshot(100), snapshot(100), ['ml0', 'dl1']).details).toBe('Ordinals not advancing: ml0 at 100');
+  });
+});
+
+describe('createRestartVerifier()', () => {
+  it('passes when the cluster is healthy and the condition cleared', async () => {
+    const reads = [snapshot(100), snapshot(102)];
+    const redetect = vi.fn().mockResolvedValue([{ ...forked, detected: false }]);
+    const verify = createRestartVerifier(makeConfig(), {
+      readSnapshot: async () => reads.shift()!,
+      redetect,
+      sleep: async () => {},
+    });
+
+    const verification = await verify(forked, ['dl1']);
+    expect(verification.passed).toBe(true);
+    expect(verification.checks.map(c => c.check)).toEqual(['ready', 'cluster-hash', 'ordinals', 'condition']);
+    expect(redetect).toHaveBeenCalledWith(['ForkedCluster'], expect.objectContaining({ nodes: expect.any(Array) }));
+  });
+
+  it('fails with the first failed check as the reason', async () => {
+    const verify = createRestartVerifier(makeConfig(), {
+      readSnapshot: async () => snapshot(100),
+      redetect: async () => [forked],
+      sleep: async () => {},
+    });
+
+    const verification = await verify(forked, ['dl1']);
+    expect(verification.passed).toBe(false);
+    expect(verification.reason).toBe('ordinals: Ordinals not advancing: ml0 at 100');
+    expect(verification.checks.find(c => c.check === 'condition')?.details).toBe('Still detected: ForkedCluster (DL1 forked)');
+  });
+});
+
+describe('executeRestart() with verification', () => {
+  beforeEach(() => {
+    resetRestartState();
+  });
+
+  afterEach(() => {
+    configureRestartVerifier(null);
+  });
+
+  it('counts a failed verification as a failed restart', async () => {
+    configureRestartVerifier(async () => ({
+      passed: false,
+      reason: 'condition: Still detected: ForkedCluster (DL1 forked)',
+      checks: [],
+    }));
+
+    const outcome = await executeRestart(makeConfig(), forked);
+
+    expect(outcome.success).toBe(false);
+    expect(outcome.error).toBe('Verification failed — condition: Still detected: ForkedCluster (DL1 forked)');
+    expect(outcome.event?.verification?.passed).toBe(false);
+    expect(getConsecutiveFailures()).toBe(1);
+  });
+
+  it('marks the restart successful once verification passes', async () => {
+    configureRestartVerifier(async () => ({ passed: true, checks: [] }));
+    const outcome = await executeRestart(makeConfig(), forked);
+    expect(outcome.success).toBe(true);
+    expect(getConsecutiveFailures()).toBe(0);
+  });
+});
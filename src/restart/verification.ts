@@ -0,0 +1,144 @@
+/**
+ * Post-Restart Verification
+ *
+ * A restart strategy finishing without an error only means every command
+ * ran. After a settle period this re-reads the health snapshot and checks
+ * that the restart actually fixed the problem:
+ *
+ * - ready:        every node is Ready on each restarted layer
+ * - cluster-hash: all nodes see the same cluster on each restarted layer
+ * - ordinals:     snapshot ordinals advance between two reads
+ * - condition:    the detectors that triggered the restart no longer fire
+ *
+ * The restart only counts as successful if every check passes.
+ */
+
+import type { Config } from '../config.js';
+import type {
+  DetectionResult,
+  HealthSnapshot,
+  Layer,
+  RestartVerification,
+  VerificationCheck,
+} from '../types.js';
+import { sleep as defaultSleep } from '../utils/sleep.js';
+
+const DEFAULT_SETTLE_SECONDS = 60;
+const DEFAULT_ORDINAL_SECONDS = 30;
+
+/** Verifies a completed restart of the given layers */
+export type RestartVerifier = (result: DetectionResult, layers: Layer[]) => Promise<RestartVerification>;
+
+export interface VerifierDeps {
+  /** A health snapshot taken no earlier than `since` */
+  readSnapshot: (since: Date) => Promise<HealthSnapshot>;
+  /** Re-run the named conditions against a snapshot */
+  redetect: (conditions: string[], snapshot: HealthSnapshot) => Promise<DetectionResult[]>;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+function layerHealth(snapshot: HealthSnapshot, ip: string, layer: Layer) {
+  return snapshot.nodes.find(n => n.ip === ip)?.layers.find(l => l.layer === layer);
+}
+
+/** Every configured node is reachable and Ready on each layer */
+export function checkReady(config: Config, snapshot: HealthSnapshot, layers: Layer[]): VerificationCheck {
+  const notReady: string[] = [];
+  for (const layer of layers) {
+    for (const node of config.nodes) {
+      const health = layerHealth(snapshot, node.ip, layer);
+      if (!health?.reachable || health.state !== 'Ready') {
+        notReady.push(`${layer} on ${node.ip} (${health?.state ?? 'missing'})`);
+      }
+    }
+  }
+  return notReady.length === 0
+    ? { check: 'ready', passed: true, details: `All nodes Ready on ${layers.join(', ')}` }
+    : { check: 'ready', passed: false, details: `Not Ready: ${notReady.join(', ')}` };
+}
+
+/** All nodes report the same cluster hash on each layer (layers without hashes are skipped) */
+export function checkClusterHashes(snapshot: HealthSnapshot, layers: Layer[]): VerificationCheck {
+  const split: string[] = [];
+  const checked: Layer[] = [];
+  for (const layer of layers) {
+    const hashes = snapshot.nodes
+      .map(n => n.layers.find(l => l.layer === layer)?.clusterHash)
+      .filter((h): h is string => h !== undefined);
+    if (hashes.length === 0) continue;
+    checked.push(layer);
+    const distinct = new Set(hashes).size;
+    if (distinct > 1) split.push(`${layer} (${distinct} distinct cluster views)`);
+  }
+
+  if (split.length > 0) return { check: 'cluster-hash', passed: false, details: `Cluster views disagree: ${split.join(', ')}` };
+  return {
+    check: 'cluster-hash',
+    passed: true,
+    details: checked.length > 0 ? `Cluster views agree on ${checked.join(', ')}` : 'No cluster hashes reported — skipped',
+  };
+}
+
+/**
+ * The highest ordinal advances between two snapshots on every restarted
+ * layer that reports ordinals (ML0 if none does, e.g. an L1-only restart).
+ */
+export function checkOrdinals(before: HealthSnapshot, after: HealthSnapshot, layers: Layer[]): VerificationCheck {
+  const maxOrdinal = (snapshot: HealthSnapshot, layer: Layer): number => Math.max(-1, ...snapshot.nodes
+    .map(n => n.layers.find(l => l.layer === layer))
+    .filter(l => l?.reachable)
+    .map(l => l!.ordinal));
+
+  const withOrdinals = layers.filter(l => maxOrdinal(before, l) >= 0);
+  const checked = withOrdinals.length > 0 ? withOrdinals : ['ml0' as Layer];
+
+  const stuck: string[] = [];
+  const advanced: string[] = [];
+  for (const layer of checked) {
+    const [from, to] = [maxOrdinal(before, layer), maxOrdinal(after, layer)];
+    if (to > from) advanced.push(`${layer} ${from} → ${to}`);
+    else stuck.push(`${layer} at ${to}`);
+  }
+
+  return stuck.length === 0
+    ? { check: 'ordinals', passed: true, details: `Ordinals advancing: ${advanced.join(', ')}` }
+    : { check: 'ordinals', passed: false, details: `Ordinals not advancing: ${stuck.join(', ')}` };
+}
+
+/** The triggering conditions no longer fire */
+export function checkConditionsCleared(results: DetectionResult[]): VerificationCheck {
+  const still = results.filter(r => r.detected);
+  return still.length === 0
+    ? { check: 'condition', passed: true, details: `Cleared: ${results.map(r => r.condition).join(', ') || 'nothing to re-check'}` }
+    : { check: 'condition', passed: false, details: `Still detected: ${still.map(r => `${r.condition} (${r.details})`).join('; ')}` };
+}
+
+/**
+ * Build the verifier the orchestrator runs after every live restart.
+ */
+export function createRestartVerifier(config: Config, deps: VerifierDeps): RestartVerifier {
+  const sleep = deps.sleep ?? defaultSleep;
+
+  return async (result, layers) => {
+    const restartedAt = new Date();
+    await sleep((config.verifySettleSeconds ?? DEFAULT_SETTLE_SECONDS) * 1000);
+    const first = await deps.readSnapshot(restartedAt);
+
+    const firstReadAt = new Date();
+    await sleep((config.verifyOrdinalSeconds ?? DEFAULT_ORDINAL_SECONDS) * 1000);
+    const second = await deps.readSnapshot(firstReadAt);
+
+    const conditions = result.mergedConditions ?? [result.condition];
+    const checks = [
+      checkReady(config, second, layers),
+      checkClusterHashes(second, layers),
+      checkOrdinals(first, second, layers),
+      checkConditionsCleared(await deps.redetect(conditions, second)),
+    ];
+
+    const failed = checks.find(c => !c.passed);
+    return failed
+      ? { passed: false, reason: `${failed.check}: ${failed.details}`, checks }
+      : { passed: true, checks };
+  };
+}
@@ -0,0 +1,108 @@
+/**
+ * Cycle Scheduler Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CycleScheduler, type CycleReason } from './scheduler.js';
+
+vi.mock('./logger.js', () => ({
+  log: vi.fn(),
+}));
+
+describe('CycleScheduler', () => {
+  let reasons: CycleReason[];
+  let cycleMs: number;
+  let scheduler: CycleScheduler;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    reasons = [];
+    cycleMs = 0;
+    scheduler = new CycleScheduler(async reason => {
+      reasons.push(reason);
+      if (cycleMs > 0) await new Promise(resolve => setTimeout(resolve, cycleMs));
+    }, { intervalMs: () => 60_000, minSpacingMs: () => 10_000 });
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    vi.useRealTimers();
+  });
+
+  it('runs on the interval when no updates arrive', async () => {
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(reasons).toEqual(['timer']);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(reasons).toEqual(['timer', 'timer']);
+  });
+
+  it('runs a cycle on update, no sooner than the minimum spacing', async () => {
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    scheduler.trigger();
+    scheduler.trigger();
+    await vi.advanceTimersByTimeAsync(9_999);
+    expect(reasons).toEqual(['timer']);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(reasons).toEqual(['timer', 'update']);
+
+    // The heartbeat restarts from the update-triggered cycle
+    await vi.advanceTimersByTimeAsync(59_999);
+    expect(reasons).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(reasons).toEqual(['timer', 'update', 'timer']);
+  });
+
+  it('runs one more cycle after updates that arrive mid-cycle', async () => {
+    cycleMs = 5_000;
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(1_000);
+    scheduler.trigger();
+    scheduler.trigger();
+
+    await vi.advanceTimersByTimeAsync(4_000 + 10_000);
+    expect(reasons).toEqual(['timer', 'update']);
+
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(reasons).toEqual(['timer', 'update']);
+  });
+
+  it('defers work queued mid-cycle until the cycle ends', async () => {
+    cycleMs = 5_000;
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(1_000);
+
+    const ran: number[] = [];
+    const queued = scheduler.runBetweenCycles(() => ran.push(Date.now()));
+    await vi.advanceTimersByTimeAsync(3_000);
+    expect(ran).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    await queued;
+    expect(ran).toHaveLength(1);
+
+    // Idle: runs straight away
+    await scheduler.runBetweenCycles(() => ran.push(Date.now()));
+    expect(ran).toHaveLength(2);
+  });
+
+  it('keeps running after a failed cycle and stops when asked', async () => {
+    let calls = 0;
+    scheduler = new CycleScheduler(async () => {
+      if (++calls === 1) throw new Error('boom');
+    }, { intervalMs: () => 1_000, minSpacingMs: () => 0 });
+
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(calls).toBe(2);
+
+    scheduler.stop();
+    scheduler.trigger();
+    await vi.advanceTimersByTimeAsync(5_000);
+    expect(calls).toBe(2);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Health-Check Cycle Scheduler
+ *
+ * Runs the daemon's health-check cycles. Without health updates this is the
+ * old fixed loop: one cycle, then `intervalMs` of sleep. When the services
+ * monitor announces new data, trigger() runs a cycle as soon as
+ * `minSpacingMs` has passed since the previous one ended; the interval
+ * stays as a heartbeat for when updates stop arriving.
+ *
+ * Cycles never overlap — a trigger during a cycle runs one more cycle after
+ * it, however many updates arrived in between. Work that must not land
+ * mid-cycle (a config reload) goes through runBetweenCycles().
+ */
+
+import { log } from './logger.js';
+
+export type CycleReason = 'timer' | 'update';
+
+export interface CycleSchedulerOptions {
+  /** Fallback heartbeat — ms after a cycle ends before the next one runs */
+  intervalMs: () => number;
+  /** Minimum ms between the end of one cycle and an update-triggered start of the next */
+  minSpacingMs: () => number;
+}
+
+export class CycleScheduler {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private dueAt = 0;
+  private running = false;
+  private triggeredWhileRunning = false;
+  private lastEnd = 0;
+  private stopped = true;
+  private betweenCycles: Array<() => void> = [];
+
+  constructor(
+    private readonly runCycle: (reason: CycleReason) => Promise<void>,
+    private readonly options: CycleSchedulerOptions,
+  ) {}
+
+  /** Run the first cycle now */
+  start(): void {
+    this.stopped = false;
+    this.schedule(0, 'timer');
+  }
+
+  /** Cancel the next cycle; a cycle already running finishes */
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  /** New health data is available — run a cycle as soon as the spacing allows */
+  trigger(): void {
+    if (this.stopped) return;
+    if (this.running) {
+      this.triggeredWhileRunning = true;
+      return;
+    }
+    this.schedule(Math.max(0, this.lastEnd + this.options.minSpacingMs() - Date.now()), 'update');
+  }
+
+  /** Run `fn` while no cycle is running — now when idle, else as soon as the current cycle ends */
+  runBetweenCycles<T>(fn: () => T): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const task = () => {
+        try {
+          resolve(fn());
+        } catch (err) {
+          reject(err);
+        }
+      };
+      if (this.running) this.betweenCycles.push(task);
+      else task();
+    });
+  }
+
+  /** Schedule a cycle in `delayMs`, unless one is already due sooner */
+  private schedule(delayMs: number, reason: CycleReason): void {
+    const dueAt = Date.now() + delayMs;
+    if (this.timer) {
+      if (this.dueAt <= dueAt) return;
+      clearTimeout(this.timer);
+    }
+    this.dueAt = dueAt;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.run(reason);
+    }, delayMs);
+  }
+
+  private async run(reason: CycleReason): Promise<void> {
+    this.running = true;
+    try {
+      await this.runCycle(reason);
+    } catch (err) {
+      log(`[Scheduler] Unexpected error: ${err}`);
+    } finally {
+      this.running = false;
+      this.lastEnd = Date.now();
+    }
+    for (const task of this.betweenCycles.splice(0)) task();
+
+    if (this.stopped) return;
+    this.schedule(this.options.intervalMs(), 'timer');
+    if (this.triggeredWhileRunning) {
+      this.triggeredWhileRunning = false;
+      this.trigger();
+    }
+  }
+}
@@ -7,7 +7,8 @@
 
 import pg from 'pg';
 import type { Config } from '../config.js';
-import type { DetectionResult, RestartScope, Layer } from '../types.js';
+import type { DetectionResult, RestartScope, Layer, RestartEvent, PlannedAction, SourceCrossCheck } from '../types.js';
+import type { HistoryFilter } from '../restart/history.js';
 import { log } from '../logger.js';
 
 const { Pool } = pg;
@@ -15,6 +16,10 @@ const { Pool } = pg;
 export type WatchdogEventType =
   | 'RESTART'
   | 'RESTART_FAILED'
+  | 'RESTART_PLANNED'
+  | 'RECOVERY'
+  | 'RECOVERY_FAILED'
+  | 'RECOVERY_PLANNED'
   | 'WATCHDOG_START'
   | 'WATCHDOG_STOP';
 
@@ -117,6 +122,8 @@ export class EventPublisher {
     scope: RestartScope,
     success: boolean,
     error?: string,
+    startedAt?: string,
+    crossCheck?: SourceCrossCheck,
   ): Promise<void> {
     await this.publish({
       eventType: success ? 'RESTART' : 'RESTART_FAILED',
@@ -131,7 +138,131 @@ export class EventPublisher {
         : `Restart failed: ${error ?? 'unknown error'}`,
       details: {
         detectionDetails: detection.details,
+        mergedConditions: detection.mergedConditions,
         error,
+        startedAt,
+        crossCheck,
+      },
+    });
+  }
+
+  /**
+   * Read persisted restart events, newest first.
+   *
+   * Applies the same filters as the in-memory history so the two can be
+   * merged page by page. Returns an empty list if Postgres is unavailable.
+   */
+  async queryRestartEvents(filter: HistoryFilter): Promise<RestartEvent[]> {
+    if (!this.pool || !this.postgresAvailable) return [];
+
+    // Restart start time — recorded in details since startedAt was added,
+    // older rows fall back to the insert time
+    const startedAt = `COALESCE((details::jsonb->>'startedAt')::timestamptz, created_at)`;
+    const where: string[] = [
+      `event_type IN ('RESTART', 'RESTART_FAILED')`,
+      `scope IS NOT NULL`,
+      `scope <> 'none'`,
+    ];
+    const params: unknown[] = [];
+    const param = (value: unknown): string => {
+      params.push(value);
+      return `$${params.length}`;
+    };
+
+    if (filter.condition) where.push(`condition = ${param(filter.condition)}`);
+    if (filter.scope) where.push(`scope = ${param(filter.scope)}`);
+    if (filter.layer) where.push(`${param(filter.layer)} = ANY(affected_layers)`);
+    if (filter.node) where.push(`${param(filter.node)} = ANY(affected_nodes)`);
+    if (filter.success !== undefined) where.push(`success = ${param(filter.success)}`);
+    if (filter.since) where.push(`${startedAt} >= ${param(filter.since)}`);
+    if (filter.until) where.push(`${startedAt} <= ${param(filter.until)}`);
+    // Inclusive — ties on the cursor timestamp are resolved by the caller
+    if (filter.cursor) where.push(`${startedAt} <= ${param(filter.cursor.timestamp)}`);
+
+    try {
+      const { rows } = await this.pool.query(
+        `SELECT condition, scope, affected_nodes, affected_layers, success, details, ${startedAt} AS started_at
+         FROM monitoring_events
+         WHERE ${where.join(' AND ')}
+         ORDER BY started_at DESC
+         LIMIT ${param(filter.limit + 1)}`,
+        params,
+      );
+
+      return rows.map(row => {
+        const details = (typeof row.details === 'string' ? JSON.parse(row.details) : row.details) ?? {};
+        return {
+          timestamp: new Date(row.started_at).toISOString(),
+          scope: row.scope as RestartScope,
+          condition: row.condition ?? 'unknown',
+          layers: (row.affected_layers ?? []) as Layer[],
+          nodes: (row.affected_nodes ?? []) as string[],
+          success: row.success === true,
+          error: details.error ?? undefined,
+        };
+      });
+    } catch (err) {
+      log(`[Events] Failed to query restart history: ${err}`);
+      return [];
+    }
+  }
+
+  /**
+   * Publish a dry-run restart plan (the actions a restart would have performed).
+   */
+  async publishRestartPlan(detection: DetectionResult, event: RestartEvent): Promise<void> {
+    await this.publish({
+      eventType: 'RESTART_PLANNED',
+      condition: detection.condition,
+      severity: 'INFO',
+      scope: event.scope,
+      affectedNodes: event.nodes,
+      affectedLayers: event.layers,
+      success: event.success,
+      message: `[DRY-RUN] Planned ${event.scope} restart (${event.plannedActions?.length ?? 0} actions): ${detection.condition}`,
+      details: {
+        detectionDetails: detection.details,
+        mergedConditions: detection.mergedConditions,
+        error: event.error,
+        startedAt: event.timestamp,
+        plannedActions: event.plannedActions ?? [],
+        crossCheck: event.crossCheck,
+      },
+    });
+  }
+
+  /**
+   * Publish the outcome of a `recover` run for one forked layer.
+   */
+  async publishRecovery(recovery: {
+    layer: Layer;
+    minorityNodes: string[];
+    majorityNodes: string[];
+    peer?: string;
+    success: boolean;
+    dryRun: boolean;
+    error?: string;
+    plannedActions: PlannedAction[];
+  }): Promise<void> {
+    const target = `${recovery.layer.toUpperCase()} minority ${recovery.minorityNodes.join(', ')}`;
+    await this.publish({
+      eventType: recovery.dryRun ? 'RECOVERY_PLANNED' : recovery.success ? 'RECOVERY' : 'RECOVERY_FAILED',
+      condition: 'ForkedCluster',
+      severity: recovery.dryRun ? 'INFO' : 'CRITICAL',
+      scope: 'individual-node',
+      affectedNodes: recovery.minorityNodes,
+      affectedLayers: [recovery.layer],
+      success: recovery.success,
+      message: recovery.dryRun
+        ? `[DRY-RUN] Planned recovery of ${target}`
+        : recovery.success
+          ? `Recovered ${target} (rejoined ${recovery.peer})`
+          : `Recovery of ${target} failed: ${recovery.error ?? 'unknown error'}`,
+      details: {
+        majorityNodes: recovery.majorityNodes,
+        peer: recovery.peer,
+        error: recovery.error,
+        ...(recovery.dryRun ? { plannedActions: recovery.plannedActions } : {}),
       },
     });
   }
@@ -147,6 +278,14 @@ export class EventPublisher {
     });
   }
 
+  /**
+   * Shared connection pool (e.g. for the restart state store).
+   * Returns null if Postgres is not configured.
+   */
+  getPool(): pg.Pool | null {
+    return this.pool;
+  }
+
   /**
    * Close the connection pool.
    */
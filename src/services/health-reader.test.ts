@@ -0,0 +1,112 @@
+/**
+ * Health Reader Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { HealthReader } from './health-reader.js';
+import type { HealthSource, SourceReading } from './health-sources.js';
+import type { Config } from '../config.js';
+import type { HealthSourceName, NodeHealthData } from '../types.js';
+
+vi.mock('../logger.js', () => ({
+  log: vi.fn(),
+}));
+
+const config = {
+  nodes: [
+    { ip: '10.0.0.1', name: 'node1' },
+    { ip: '10.0.0.2', name: 'node2' },
+    { ip: '10.0.0.3', name: 'node3' },
+  ],
+  ports: { gl0: 9000, ml0: 9200, cl1: 9300, dl1: 9400 },
+} as Config;
+
+function node(ip: string): NodeHealthData {
+  return { ip, name: ip, layers: [{ layer: 'ml0', state: 'Ready', ordinal: 100, reachable: true, clusterSize: 3 }] };
+}
+
+function source(name: HealthSourceName, reading: SourceReading | null): HealthSource & { read: ReturnType<typeof vi.fn> } {
+  return { name, read: vi.fn().mockResolvedValue(reading), close: vi.fn().mockResolvedValue(undefined) };
+}
+
+describe('HealthReader', () => {
+  it('uses the first source that covers every node', async () => {
+    const redis = source('redis', { timestamp: new Date(), nodes: config.nodes.map(n => node(n.ip)) });
+    const direct = source('direct', null);
+
+    const snapshot = await new HealthReader(config, [redis, direct]).getHealthSnapshot();
+
+    expect(snapshot.source).toBe('redis');
+    expect(snapshot.nodes.every(n => n.source === 'redis')).toBe(true);
+    expect(direct.read).not.toHaveBeenCalled();
+  });
+
+  it('fills in uncovered nodes from later sources and records each node source', async () => {
+    const older = new Date(Date.now() - 20_000);
+    const prometheus = source('prometheus', { timestamp: older, nodes: [node('10.0.0.2')] });
+    const redis = source('redis', null);
+    const direct = source('direct', { timestamp: new Date(), nodes: [node('10.0.0.1'), node('10.0.0.3')] });
+
+    const snapshot = await new HealthReader(config, [prometheus, redis, direct]).getHealthSnapshot();
+
+    expect(direct.read).toHaveBeenCalledWith([config.nodes[0], config.nodes[2]]);
+    expect(snapshot.source).toBe('mixed');
+    expect(snapshot.timestamp).toEqual(older);
+    expect(snapshot.nodes.map(n => [n.ip, n.source])).toEqual([
+      ['10.0.0.1', 'direct'],
+      ['10.0.0.2', 'prometheus'],
+      ['10.0.0.3', 'direct'],
+    ]);
+  });
+
+  it('skips a source whose data failed validation and records why', async () => {
+    const redis = source('redis', { timestamp: new Date(), nodes: [], rejected: ['unsupported schemaVersion 2 (supported: 1–1)'] });
+    const direct = source('direct', { timestamp: new Date(), nodes: config.nodes.map(n => node(n.ip)) });
+
+    const snapshot = await new HealthReader(config, [redis, direct]).getHealthSnapshot();
+
+    expect(snapshot.source).toBe('direct');
+    expect(snapshot.rejected).toEqual([{ source: 'redis', issues: ['unsupported schemaVersion 2 (supported: 1–1)'] }]);
+  });
+
+  it('fills in missing nodes and layers and flags unknown IPs', async () => {
+    const redis = source('redis', {
+      timestamp: new Date(),
+      nodes: [node('10.0.0.9'), node('10.0.0.2'), node('10.0.0.1')],
+    });
+
+    const snapshot = await new HealthReader(config, [redis]).getHealthSnapshot();
+
+    expect(snapshot.unknownNodes).toEqual(['10.0.0.9']);
+    expect(snapshot.nodes.map(n => n.ip)).toEqual(['10.0.0.1', '10.0.0.2', '10.0.0.3']);
+    const missing = { state: 'Missing', ordinal: -1, reachable: false, clusterSize: 0 };
+    expect(snapshot.nodes[0].layers).toEqual([
+      { layer: 'gl0', ...missing },
+      node('10.0.0.1').layers[0],
+      { layer: 'cl1', ...missing },
+      { layer: 'dl1', ...missing },
+    ]);
+    expect(snapshot.nodes[2]).toEqual({
+      ip: '10.0.0.3',
+      name: 'node3',
+      layers: ['gl0', 'ml0', 'cl1', 'dl1'].map(layer => ({ layer, ...missing })),
+    });
+  });
+
+  it('returns a stale, empty snapshot when no source has data', async () => {
+    const snapshot = await new HealthReader(config, [source('redis', null)]).getHealthSnapshot();
+    expect(snapshot).toMatchObject({ nodes: [], stale: true, source: 'redis' });
+  });
+
+  it('subscribes to the sources that can push updates', async () => {
+    let notify: () => void = () => {};
+    const redis = { ...source('redis', null), subscribe: vi.fn(async (onUpdate: () => void) => { notify = onUpdate; return true; }) };
+    const listener = vi.fn();
+
+    expect(await new HealthReader(config, [redis, source('direct', null)]).subscribe(listener)).toBe(true);
+    notify();
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    expect(await new HealthReader(config, [source('direct', null)]).subscribe(listener)).toBe(false);
+  });
+});
@@ -1,274 +1,186 @@
 /**
  * Health Data Reader
  *
- * Reads health data from Redis (cached by services monitor) and Postgres (events).
- * Falls back to direct node HTTP checks if Redis is stale or unavailable.
+ * Reads node health from the configured health sources in priority order
+ * (default: Redis, then direct HTTP). Each source fills in the nodes the
+ * earlier ones had no fresh data for, so a snapshot can mix sources; every
+ * node records the source it came from. A source whose data fails
+ * validation is skipped and listed in the snapshot's `rejected`.
+ *
+ * The merged data is reconciled with `config.nodes`: configured nodes and
+ * layers nobody reported are filled in as `Missing`, unknown IPs are dropped
+ * and listed in `unknownNodes`.
  *
  * Primary data flow:
  *   Services Monitor → Redis → Watchdog (this reader)
  *
  * Fallback:
  *   Tessellation Nodes → /node/info HTTP → Watchdog (direct poll)
+ *
+ * With `healthUpdates` enabled, subscribe() reports each Redis write so the
+ * daemon can run a cycle straight away instead of waiting for its timer.
  */
 
-import { Redis } from 'ioredis';
 import type { Config } from '../config.js';
-import type { Layer } from '../types.js';
-import { checkLayerHealth, getLatestOrdinal } from './node-api.js';
+import type { HealthSnapshot, LayerHealth, NodeHealthData, RejectedSource } from '../types.js';
+import { ALL_LAYERS, MISSING_STATE } from '../types.js';
+import { createHealthSources, DirectHealthSource, type HealthSource } from './health-sources.js';
 import { log } from '../logger.js';
 
-/** Redis key where services monitor writes latest health data */
-const HEALTH_KEY = 'monitor:health:latest';
-
-/** Layer health from a single node */
-export interface LayerHealth {
-  layer: Layer;
-  state: string;
-  ordinal: number;
-  reachable: boolean;
-  clusterSize: number;
-  clusterHash?: string;
-}
-
-/** Health data for a single node */
-export interface NodeHealthData {
-  ip: string;
-  name: string;
-  layers: LayerHealth[];
-}
+export type { LayerHealth, NodeHealthData, HealthSnapshot } from '../types.js';
 
-/** Complete health snapshot */
-export interface HealthSnapshot {
-  timestamp: Date;
-  nodes: NodeHealthData[];
-  stale: boolean;
-  source: 'redis' | 'direct';
-}
+/**
+ * Shape the merged source data to the configured topology: one entry per
+ * configured node, in config order, with every layer. Nodes and layers no
+ * source reported become unreachable `Missing` entries, so detectors that
+ * count nodes per layer see the whole cluster. Nodes that are not in the
+ * config are left out.
+ */
+export function reconcileWithConfig(config: Config, nodes: NodeHealthData[]): NodeHealthData[] {
+  const byIp = new Map(nodes.map(n => [n.ip, n]));
+
+  return config.nodes.map(node => {
+    const data = byIp.get(node.ip);
+    const missingLayers = ALL_LAYERS.filter(layer => !data?.layers.some(l => l.layer === layer));
+    if (!data) {
+      log(`[HealthReader] ${node.name} (${node.ip}) missing from the health data`);
+    } else if (missingLayers.length > 0) {
+      log(`[HealthReader] ${node.name} (${node.ip}) has no data for ${missingLayers.join(', ')}`);
+    }
 
-/** Redis health data format (as written by services monitor) */
-interface RedisHealthPayload {
-  timestamp: string;
-  nodes: Array<{
-    ip: string;
-    name: string;
-    layers: Array<{
-      layer: string;
-      state: string;
-      ordinal: number;
-      reachable: boolean;
-      clusterSize?: number;
-      clusterHash?: string;
-    }>;
-  }>;
+    const missing: LayerHealth[] = missingLayers.map(layer => ({
+      layer, state: MISSING_STATE, ordinal: -1, reachable: false, clusterSize: 0,
+    }));
+    const layers = [...(data?.layers ?? []), ...missing];
+    layers.sort((a, b) => ALL_LAYERS.indexOf(a.layer) - ALL_LAYERS.indexOf(b.layer));
+    return data ? { ...data, layers } : { ip: node.ip, name: node.name, layers };
+  });
 }
 
 /**
  * HealthReader class
  *
- * Manages Redis connection and provides health data reading with fallback.
+ * Walks the health source chain and merges what each source covers.
  */
 export class HealthReader {
-  private redis: Redis | null = null;
   private config: Config;
-  private redisAvailable: boolean = true;
-  private lastRedisError: Date | null = null;
+  private sources: HealthSource[];
+  private direct: DirectHealthSource;
 
-  constructor(config: Config) {
+  constructor(config: Config, sources: HealthSource[] = createHealthSources(config)) {
     this.config = config;
-    this.initRedis();
-  }
-
-  private initRedis(): void {
-    if (!this.config.redisUrl) {
-      log('[HealthReader] No Redis URL configured, using direct HTTP fallback');
-      this.redisAvailable = false;
-      return;
-    }
-
-    try {
-      this.redis = new Redis(this.config.redisUrl, {
-        maxRetriesPerRequest: 1,
-        connectTimeout: 5000,
-        commandTimeout: 3000,
-        lazyConnect: true,
-        retryStrategy: (times: number) => {
-          if (times > 3) {
-            log('[HealthReader] Redis connection failed, falling back to direct checks');
-            return null; // Stop retrying
-          }
-          return Math.min(times * 200, 1000);
-        },
-      });
-
-      this.redis?.on('error', (err: Error) => {
-        if (this.redisAvailable) {
-          log(`[HealthReader] Redis error: ${err.message}`);
-          this.redisAvailable = false;
-          this.lastRedisError = new Date();
-        }
-      });
-
-      this.redis?.on('connect', () => {
-        if (!this.redisAvailable) {
-          log('[HealthReader] Redis reconnected');
-        }
-        this.redisAvailable = true;
-      });
-    } catch (err) {
-      log(`[HealthReader] Failed to initialize Redis: ${err}`);
-      this.redisAvailable = false;
-    }
+    this.sources = sources;
+    this.direct = sources.find((s): s is DirectHealthSource => s instanceof DirectHealthSource) ?? new DirectHealthSource(config);
   }
 
   /**
    * Get health snapshot.
-   * Tries Redis first, falls back to direct HTTP if stale or unavailable.
+   * Asks each source in turn until every configured node is covered.
    */
   async getHealthSnapshot(): Promise<HealthSnapshot> {
-    // Try Redis first
-    if (this.redis && this.redisAvailable) {
-      try {
-        const data = await this.redis.get(HEALTH_KEY);
-        if (data) {
-          const parsed = JSON.parse(data) as RedisHealthPayload;
-          const timestamp = new Date(parsed.timestamp);
-          const ageSeconds = (Date.now() - timestamp.getTime()) / 1000;
+    const pending = new Set(this.config.nodes.map(n => n.ip));
+    const configured = new Set(pending);
+    const nodes: NodeHealthData[] = [];
+    const timestamps: number[] = [];
+    const rejected: RejectedSource[] = [];
+    const unknownNodes = new Set<string>();
+
+    for (const source of this.sources) {
+      if (pending.size === 0) break;
+
+      const reading = await source.read(this.config.nodes.filter(n => pending.has(n.ip)));
+      if (reading?.rejected) {
+        rejected.push({ source: source.name, issues: reading.rejected });
+        log(`[HealthReader] ${source.name} data failed validation, trying the next source`);
+        continue;
+      }
+      for (const node of reading?.nodes ?? []) {
+        if (!configured.has(node.ip)) unknownNodes.add(node.ip);
+      }
+      const fresh = reading?.nodes.filter(n => pending.has(n.ip)) ?? [];
+      if (!reading || fresh.length === 0) {
+        log(`[HealthReader] No fresh data from ${source.name}, trying the next source`);
+        continue;
+      }
 
-          if (ageSeconds < this.config.healthDataStaleSeconds) {
-            // Fresh data from Redis
-            return {
-              timestamp,
-              nodes: this.transformRedisNodes(parsed.nodes),
-              stale: false,
-              source: 'redis',
-            };
-          } else {
-            log(`[HealthReader] Redis data stale (${ageSeconds.toFixed(0)}s old), falling back to direct checks`);
-          }
-        } else {
-          log('[HealthReader] No health data in Redis, falling back to direct checks');
-        }
-      } catch (err) {
-        log(`[HealthReader] Redis read failed: ${err}, falling back to direct checks`);
+      for (const node of fresh) {
+        nodes.push({ ...node, source: source.name });
+        pending.delete(node.ip);
+      }
+      timestamps.push(reading.timestamp.getTime());
+      if (pending.size > 0) {
+        log(`[HealthReader] ${source.name} has no data for ${[...pending].join(', ')}`);
       }
     }
 
-    // Fallback to direct HTTP polling
-    return this.pollDirectly();
-  }
-
-  /**
-   * Transform Redis payload to our internal format.
-   */
-  private transformRedisNodes(nodes: RedisHealthPayload['nodes']): NodeHealthData[] {
-    return nodes.map(n => ({
-      ip: n.ip,
-      name: n.name,
-      layers: n.layers.map(l => ({
-        layer: l.layer as Layer,
-        state: l.state,
-        ordinal: l.ordinal,
-        reachable: l.reachable,
-        clusterSize: l.clusterSize ?? 0,
-        clusterHash: l.clusterHash,
-      })),
-    }));
-  }
-
-  /**
-   * Poll nodes directly via HTTP (fallback when Redis unavailable/stale).
-   */
-  private async pollDirectly(): Promise<HealthSnapshot> {
-    log('[HealthReader] Using direct HTTP polling (fallback mode)');
-    const layers: Layer[] = ['gl0', 'ml0', 'cl1', 'dl1'];
-    const nodeHealthMap = new Map<string, NodeHealthData>();
-
-    // Initialize nodes
-    for (const node of this.config.nodes) {
-      nodeHealthMap.set(node.ip, {
-        ip: node.ip,
-        name: node.name,
-        layers: [],
-      });
+    if (unknownNodes.size > 0) {
+      log(`[HealthReader] Health data includes nodes that are not configured (ignored): ${[...unknownNodes].join(', ')}`);
     }
 
-    // Poll each layer
-    for (const layer of layers) {
-      const healths = await checkLayerHealth(this.config, layer);
-
-      for (const h of healths) {
-        const nodeData = nodeHealthMap.get(h.nodeIp);
-        if (nodeData) {
-          nodeData.layers.push({
-            layer: h.layer,
-            state: h.state,
-            ordinal: h.ordinal,
-            reachable: h.reachable,
-            clusterSize: h.cluster.length,
-          });
-        }
-      }
+    if (nodes.length === 0) {
+      log('[HealthReader] No health source returned data');
+      return {
+        timestamp: new Date(),
+        nodes: [],
+        stale: true,
+        source: this.sources[0]?.name ?? 'direct',
+        ...(rejected.length > 0 ? { rejected } : {}),
+        ...(unknownNodes.size > 0 ? { unknownNodes: [...unknownNodes] } : {}),
+      };
     }
 
+    const used = new Set(nodes.map(n => n.source!));
     return {
-      timestamp: new Date(),
-      nodes: Array.from(nodeHealthMap.values()),
+      // The oldest contributing reading, so "fresh since" checks stay conservative
+      timestamp: new Date(Math.min(...timestamps)),
+      nodes: reconcileWithConfig(this.config, nodes),
       stale: false,
-      source: 'direct',
+      source: used.size === 1 ? [...used][0] : 'mixed',
+      ...(rejected.length > 0 ? { rejected } : {}),
+      ...(unknownNodes.size > 0 ? { unknownNodes: [...unknownNodes] } : {}),
     };
   }
 
+  /**
+   * Health snapshot taken no earlier than `since` — polls directly if the
+   * cached data predates it (e.g. right after a restart).
+   */
+  async getSnapshotSince(since: Date): Promise<HealthSnapshot> {
+    const snapshot = await this.getHealthSnapshot();
+    if (snapshot.timestamp.getTime() >= since.getTime()) return snapshot;
+    log(`[HealthReader] Cached data predates ${since.toISOString()}, polling directly`);
+    const { timestamp, nodes } = await this.direct.read(this.config.nodes);
+    return { timestamp, nodes: nodes.map(n => ({ ...n, source: 'direct' })), stale: false, source: 'direct' };
+  }
+
   /**
    * Get current ML0 ordinal for stall detection.
-   * Tries Redis first, then direct.
    */
   async getML0Ordinal(): Promise<{ ordinal: number; nodeIp: string } | null> {
-    // Try Redis
-    if (this.redis && this.redisAvailable) {
-      try {
-        const data = await this.redis.get(HEALTH_KEY);
-        if (data) {
-          const parsed = JSON.parse(data) as RedisHealthPayload;
-          const timestamp = new Date(parsed.timestamp);
-          const ageSeconds = (Date.now() - timestamp.getTime()) / 1000;
-
-          if (ageSeconds < this.config.healthDataStaleSeconds) {
-            // Find first node with ML0 data
-            for (const node of parsed.nodes) {
-              const ml0 = node.layers.find(l => l.layer === 'ml0' && l.reachable);
-              if (ml0) {
-                return { ordinal: ml0.ordinal, nodeIp: node.ip };
-              }
-            }
-          }
-        }
-      } catch {
-        // Fall through to direct
-      }
+    const snapshot = await this.getHealthSnapshot();
+    for (const node of snapshot.nodes) {
+      const ml0 = node.layers.find(l => l.layer === 'ml0' && l.reachable && l.ordinal >= 0);
+      if (ml0) return { ordinal: ml0.ordinal, nodeIp: node.ip };
     }
+    return null;
+  }
 
-    // Direct fallback
-    for (const node of this.config.nodes) {
-      try {
-        const ordinal = await getLatestOrdinal(node.ip, this.config.ports.ml0, 'ml0');
-        if (ordinal >= 0) {
-          return { ordinal, nodeIp: node.ip };
-        }
-      } catch {
-        // Try next node
-      }
+  /**
+   * Call `listener` whenever a health source announces new data. Resolves
+   * false when no configured source can push updates.
+   */
+  async subscribe(listener: () => void): Promise<boolean> {
+    let subscribed = false;
+    for (const source of this.sources) {
+      if (source.subscribe && await source.subscribe(listener)) subscribed = true;
     }
-
-    return null;
+    return subscribed;
   }
 
   /**
    * Close connections.
    */
   async close(): Promise<void> {
-    if (this.redis) {
-      this.redis.disconnect();
-      this.redis = null;
-    }
+    await Promise.all(this.sources.map(s => s.close()));
   }
 }
@@ -0,0 +1,70 @@
+/**
+ * Health Source Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { pollNodesDirectly, type NodeProbe } from './health-sources.js';
+import type { Config } from '../config.js';
+import type { NodeHealth } from '../types.js';
+
+vi.mock('../logger.js', () => ({
+  log: vi.fn(),
+}));
+
+function makeConfig(overrides: Partial<Config> = {}): Config {
+  return {
+    nodes: [
+      { ip: '10.0.0.1', name: 'node1' },
+      { ip: '10.0.0.2', name: 'node2' },
+      { ip: '10.0.0.3', name: 'node3' },
+    ],
+    ports: { gl0: 9000, ml0: 9200, cl1: 9300, dl1: 9400 },
+    directPollConcurrency: 4,
+    directPollDeadlineSeconds: 15,
+    ...overrides,
+  } as Config;
+}
+
+const ready = (ip: string, layer: NodeHealth['layer']): NodeHealth => ({
+  nodeIp: ip, layer, reachable: true, state: 'Ready', cluster: [{ id: 'peer-1', state: 'Ready' }], ordinal: 100, latencyMs: 12,
+});
+
+describe('pollNodesDirectly()', () => {
+  it('probes every node and layer with bounded concurrency', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const probe: NodeProbe = async (ip, layer) => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      inFlight--;
+      return ready(ip, layer);
+    };
+
+    const snapshot = await pollNodesDirectly(makeConfig(), probe);
+
+    expect(maxInFlight).toBe(4);
+    expect(snapshot.source).toBe('direct');
+    expect(snapshot.nodes.map(n => n.layers.map(l => l.layer))).toEqual(Array(3).fill(['gl0', 'ml0', 'cl1', 'dl1']));
+    expect(snapshot.nodes[0].layers[0]).toMatchObject({ reachable: true, latencyMs: 12, clusterPeers: ['peer-1'] });
+  });
+
+  it('records probe errors and cuts off probes at the deadline', async () => {
+    const probe: NodeProbe = async (ip, layer, _port, deadline) => {
+      if (ip === '10.0.0.1') {
+        return { ...ready(ip, layer), reachable: false, state: 'Unreachable', cluster: [], error: { type: 'connection-refused', message: 'Connection refused' } };
+      }
+      // 10.0.0.2 hangs until the deadline aborts it
+      await new Promise(resolve => deadline.addEventListener('abort', resolve));
+      return { ...ready(ip, layer), reachable: false, state: 'Unreachable', cluster: [], error: { type: 'deadline', message: 'Poll deadline reached' } };
+    };
+
+    const snapshot = await pollNodesDirectly(makeConfig({ directPollConcurrency: 2, directPollDeadlineSeconds: 1 }), probe);
+
+    expect(snapshot.nodes[0].layers.every(l => l.error?.type === 'connection-refused')).toBe(true);
+    expect(snapshot.nodes[1].layers.every(l => l.error?.type === 'deadline' && !l.reachable)).toBe(true);
+    // Never started: the deadline passed while node2's probes hung
+    expect(snapshot.nodes[2].layers.map(l => l.error?.message)).toEqual(
+      Array(4).fill('Poll deadline reached before the probe started'),
+    );
+  });
+});
@@ -0,0 +1,286 @@
+/**
+ * Health Sources
+ *
+ * Each source reads node health from one place:
+ *
+ *   redis      — the `monitor:health:latest` key cached by the services monitor
+ *   direct     — HTTP probes of /node/info, /cluster/info and the latest snapshot
+ *   prometheus — the node metrics our Prometheus already scrapes
+ *
+ * HealthReader walks the configured sources in priority order; a source
+ * may cover only part of the cluster, and the next one fills in the rest.
+ */
+
+import { Redis } from 'ioredis';
+import type { Config, NodeConfig } from '../config.js';
+import { DEFAULT_HEALTH_SOURCES, nodePort } from '../config.js';
+import type { HealthSnapshot, HealthSourceName, Layer, LayerHealth, NodeHealth, NodeHealthData } from '../types.js';
+import { ALL_LAYERS } from '../types.js';
+import { checkNodeHealth } from './node-api.js';
+import { PrometheusHealthSource } from './prometheus-source.js';
+import { parseRedisHealthPayload } from './redis-payload.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { hashClusterPOV } from '../conditions/forked-cluster.js';
+import { log } from '../logger.js';
+
+/** Health read from one source */
+export interface SourceReading {
+  /** When the data was collected */
+  timestamp: Date;
+  /** Nodes the source has data for — may be a subset of the cluster */
+  nodes: NodeHealthData[];
+  /** Why the source's data failed validation — set when it was rejected (`nodes` is then empty) */
+  rejected?: string[];
+}
+
+export interface HealthSource {
+  readonly name: HealthSourceName;
+  /**
+   * Fresh health data, or null when the source is unavailable or stale.
+   * `nodes` are the configured nodes no earlier source covered.
+   */
+  read(nodes: NodeConfig[]): Promise<SourceReading | null>;
+  /**
+   * Call `onUpdate` whenever the source has new data. Resolves false when
+   * the source cannot push updates.
+   */
+  subscribe?(onUpdate: () => void): Promise<boolean>;
+  close(): Promise<void>;
+}
+
+// =============================================================================
+// Redis
+// =============================================================================
+
+/** Redis key where services monitor writes latest health data */
+const HEALTH_KEY = 'monitor:health:latest';
+
+export class RedisHealthSource implements HealthSource {
+  readonly name = 'redis';
+  private redis: Redis | null = null;
+  private subscriber: Redis | null = null;
+  private redisAvailable: boolean = true;
+
+  constructor(private readonly config: Config) {
+    this.initRedis();
+  }
+
+  private initRedis(): void {
+    if (!this.config.redisUrl) {
+      log('[HealthReader] No Redis URL configured, skipping the Redis health source');
+      this.redisAvailable = false;
+      return;
+    }
+
+    try {
+      this.redis = new Redis(this.config.redisUrl, {
+        maxRetriesPerRequest: 1,
+        connectTimeout: 5000,
+        commandTimeout: 3000,
+        lazyConnect: true,
+        retryStrategy: (times: number) => {
+          if (times > 3) {
+            log('[HealthReader] Redis connection failed, falling back to the next health source');
+            return null; // Stop retrying
+          }
+          return Math.min(times * 200, 1000);
+        },
+      });
+
+      this.redis?.on('error', (err: Error) => {
+        if (this.redisAvailable) {
+          log(`[HealthReader] Redis error: ${err.message}`);
+          this.redisAvailable = false;
+        }
+      });
+
+      this.redis?.on('connect', () => {
+        if (!this.redisAvailable) {
+          log('[HealthReader] Redis reconnected');
+        }
+        this.redisAvailable = true;
+      });
+    } catch (err) {
+      log(`[HealthReader] Failed to initialize Redis: ${err}`);
+      this.redisAvailable = false;
+    }
+  }
+
+  async read(): Promise<SourceReading | null> {
+    if (!this.redis || !this.redisAvailable) return null;
+
+    try {
+      const data = await this.redis.get(HEALTH_KEY);
+      if (!data) {
+        log('[HealthReader] No health data in Redis');
+        return null;
+      }
+
+      let raw: unknown;
+      try {
+        raw = JSON.parse(data);
+      } catch {
+        raw = undefined;
+      }
+      const parsed = raw === undefined
+        ? { valid: false as const, issues: ['payload is not valid JSON'] }
+        : parseRedisHealthPayload(raw, this.config.nodes);
+      if (!parsed.valid) {
+        log(`[HealthReader] Redis health payload rejected: ${parsed.issues.join('; ')}`);
+        return { timestamp: new Date(), nodes: [], rejected: parsed.issues };
+      }
+
+      const ageSeconds = (Date.now() - parsed.timestamp.getTime()) / 1000;
+      if (ageSeconds >= this.config.healthDataStaleSeconds) {
+        log(`[HealthReader] Redis data stale (${ageSeconds.toFixed(0)}s old)`);
+        return null;
+      }
+      if (parsed.missing.length > 0) {
+        log(`[HealthReader] Redis payload is missing configured node(s): ${parsed.missing.join(', ')} — left to the next source`);
+      }
+      return { timestamp: parsed.timestamp, nodes: parsed.nodes };
+    } catch (err) {
+      log(`[HealthReader] Redis read failed: ${err}`);
+      return null;
+    }
+  }
+
+  /**
+   * Listen for new health data: a message on `healthUpdates.channel`, or in
+   * keyspace mode a `set` notification for the health key (the Redis server
+   * needs `notify-keyspace-events K$`). Uses its own connection, since a
+   * subscribed connection cannot run GET.
+   */
+  async subscribe(onUpdate: () => void): Promise<boolean> {
+    const updates = this.config.healthUpdates;
+    if (!this.redis || !updates || updates.mode === 'off') return false;
+
+    const subscriber = this.redis.duplicate();
+    subscriber.on('error', (err: Error) => log(`[HealthReader] Redis subscriber error: ${err.message}`));
+
+    try {
+      if (updates.mode === 'keyspace') {
+        subscriber.on('pmessage', (_pattern: string, _channel: string, event: string) => {
+          if (event === 'set') onUpdate();
+        });
+        await subscriber.psubscribe(`__keyspace@*__:${HEALTH_KEY}`);
+      } else {
+        subscriber.on('message', () => onUpdate());
+        await subscriber.subscribe(updates.channel);
+      }
+    } catch (err) {
+      log(`[HealthReader] Redis subscribe failed: ${err}`);
+      subscriber.disconnect();
+      return false;
+    }
+
+    this.subscriber = subscriber;
+    log(`[HealthReader] Subscribed to health updates (${updates.mode === 'keyspace' ? `keyspace events for ${HEALTH_KEY}` : updates.channel})`);
+    return true;
+  }
+
+  async close(): Promise<void> {
+    if (this.subscriber) {
+      this.subscriber.disconnect();
+      this.subscriber = null;
+    }
+    if (this.redis) {
+      this.redis.disconnect();
+      this.redis = null;
+    }
+  }
+}
+
+// =============================================================================
+// Direct HTTP
+// =============================================================================
+
+/**
+ * Layer health from a direct node check. Hashing the peer set gives fork
+ * detection in fallback mode the same fidelity as Redis snapshots, rather
+ * than comparing cluster sizes.
+ */
+export function toLayerHealth(h: NodeHealth): LayerHealth {
+  return {
+    layer: h.layer,
+    state: h.state,
+    ordinal: h.ordinal,
+    reachable: h.reachable,
+    clusterSize: h.cluster.length,
+    clusterHash: h.reachable ? hashClusterPOV(h.cluster) : undefined,
+    clusterPeers: h.cluster.map(m => m.id).sort(),
+    clusterSession: h.clusterSession,
+    latencyMs: h.latencyMs,
+    error: h.error,
+  };
+}
+
+export type NodeProbe = (ip: string, layer: Layer, port: number, deadline: AbortSignal) => Promise<NodeHealth>;
+
+/**
+ * Probe every node on every layer at once, with at most
+ * `directPollConcurrency` probes in flight. Probes still running at the
+ * cycle deadline are aborted; probes not yet started are skipped. Both are
+ * reported unreachable with a 'deadline' error.
+ */
+export async function pollNodesDirectly(
+  config: Config,
+  probe: NodeProbe = checkNodeHealth,
+  nodes: NodeConfig[] = config.nodes,
+): Promise<HealthSnapshot> {
+  const deadlineMs = (config.directPollDeadlineSeconds ?? 15) * 1000;
+  const deadline = AbortSignal.timeout(deadlineMs);
+  const started = Date.now();
+
+  const targets = nodes.flatMap(node => ALL_LAYERS.map(layer => ({ node, layer })));
+  const healths = await mapWithConcurrency(targets, config.directPollConcurrency ?? 8, ({ node, layer }) => {
+    if (deadline.aborted) {
+      return Promise.resolve<NodeHealth>({
+        nodeIp: node.ip, layer, reachable: false, state: 'Unreachable', cluster: [], ordinal: -1,
+        error: { type: 'deadline', message: 'Poll deadline reached before the probe started' },
+      });
+    }
+    return probe(node.ip, layer, nodePort(config, node, layer), deadline);
+  });
+
+  const missed = healths.filter(h => h.error?.type === 'deadline').length;
+  log(`[HealthReader] Polled ${targets.length} node/layer pairs in ${Date.now() - started}ms${missed > 0 ? ` — ${missed} cut off by the ${deadlineMs / 1000}s deadline` : ''}`);
+
+  return {
+    timestamp: new Date(),
+    nodes: nodes.map(node => ({
+      ip: node.ip,
+      name: node.name,
+      layers: healths.filter(h => h.nodeIp === node.ip).map(toLayerHealth),
+    })),
+    stale: false,
+    source: 'direct',
+  };
+}
+
+export class DirectHealthSource implements HealthSource {
+  readonly name = 'direct';
+
+  constructor(private readonly config: Config, private readonly probe: NodeProbe = checkNodeHealth) {}
+
+  async read(nodes: NodeConfig[]): Promise<SourceReading> {
+    log(`[HealthReader] Polling ${nodes.length} node(s) directly over HTTP`);
+    const { timestamp, nodes: polled } = await pollNodesDirectly(this.config, this.probe, nodes);
+    return { timestamp, nodes: polled };
+  }
+
+  async close(): Promise<void> {}
+}
+
+/**
+ * Build the configured health sources in priority order.
+ */
+export function createHealthSources(config: Config): HealthSource[] {
+  return (config.healthSources ?? DEFAULT_HEALTH_SOURCES).map((name): HealthSource => {
+    switch (name) {
+      case 'redis': return new RedisHealthSource(config);
+      case 'direct': return new DirectHealthSource(config);
+      case 'prometheus': return new PrometheusHealthSource(config);
+    }
+  });
+}
@@ -0,0 +1,63 @@
+/**
+ * Node API Probe Tests
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { checkNodeHealth } from './node-api.js';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+function stubFetch(impl: (url: string) => Promise<Response>): void {
+  vi.stubGlobal('fetch', vi.fn((url: string) => impl(url)));
+}
+
+describe('checkNodeHealth()', () => {
+  it('records latency and node state for a reachable node', async () => {
+    stubFetch(async url => Response.json(url.endsWith('/node/info') ? { state: 'Ready', clusterSession: 's1' } : []));
+    const health = await checkNodeHealth('10.0.0.1', 'dl1', 9400);
+    expect(health).toMatchObject({ reachable: true, state: 'Ready', clusterSession: 's1' });
+    expect(health.error).toBeUndefined();
+    expect(health.latencyMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('classifies HTTP status, connection refused and timeout errors', async () => {
+    stubFetch(async () => new Response('', { status: 503 }));
+    expect((await checkNodeHealth('10.0.0.1', 'dl1', 9400)).error)
+      .toEqual({ type: 'http-status', message: 'HTTP 503', status: 503, endpoint: '/node/info' });
+
+    stubFetch(async () => { throw new TypeError('fetch failed', { cause: { code: 'ECONNREFUSED' } }); });
+    expect((await checkNodeHealth('10.0.0.1', 'dl1', 9400)).error?.type).toBe('connection-refused');
+
+    stubFetch(async () => { throw new DOMException('The operation was aborted due to timeout', 'TimeoutError'); });
+    const timedOut = await checkNodeHealth('10.0.0.1', 'dl1', 9400);
+    expect(timedOut).toMatchObject({ reachable: false, state: 'Unreachable', error: { type: 'timeout' } });
+  });
+
+  it('records cluster-info and ordinal probe errors on a reachable node', async () => {
+    stubFetch(async url => {
+      if (url.endsWith('/node/info')) return Response.json({ state: 'Ready' });
+      if (url.endsWith('/cluster/info')) return new Response('', { status: 500 });
+      throw new TypeError('fetch failed', { cause: { code: 'ECONNREFUSED' } });
+    });
+    expect(await checkNodeHealth('10.0.0.1', 'dl1', 9400)).toMatchObject({
+      reachable: true,
+      cluster: [],
+      ordinal: -1,
+      error: { type: 'http-status', status: 500, endpoint: '/cluster/info' },
+    });
+
+    stubFetch(async url => {
+      if (url.endsWith('/snapshots/latest')) throw new DOMException('The operation was aborted due to timeout', 'TimeoutError');
+      return Response.json(url.endsWith('/node/info') ? { state: 'Ready' } : []);
+    });
+    expect((await checkNodeHealth('10.0.0.1', 'dl1', 9400)).error).toMatchObject({ type: 'timeout', endpoint: '/snapshots/latest' });
+  });
+
+  it('reports probes aborted by the cycle deadline as deadline errors', async () => {
+    stubFetch(async () => { throw new DOMException('This operation was aborted', 'AbortError'); });
+    const deadline = AbortSignal.abort();
+    expect((await checkNodeHealth('10.0.0.1', 'dl1', 9400, deadline)).error?.type).toBe('deadline');
+  });
+});
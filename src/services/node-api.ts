@@ -4,67 +4,89 @@
  * Fetches /node/info, /cluster/info, snapshot ordinals from each node.
  */
 
-import type { Layer, NodeInfo, ClusterMember, NodeHealth } from '../types.js';
+import type { Layer, NodeInfo, ClusterMember, NodeHealth, ProbeError } from '../types.js';
 import type { Config } from '../config.js';
+import { nodePort } from '../config.js';
 import { log } from '../logger.js';
 
 const FETCH_TIMEOUT = 5_000;
 
-async function fetchJson<T>(url: string): Promise<T | null> {
-  try {
-    const controller = new AbortController();
-    const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT);
-    const res = await fetch(url, { signal: controller.signal });
-    clearTimeout(timer);
-    if (!res.ok) return null;
-    return (await res.json()) as T;
-  } catch {
-    return null;
-  }
-}
+type ProbeResult<T> = { data: T; error?: undefined } | { data: null; error: ProbeError };
 
-export async function getNodeInfo(ip: string, port: number): Promise<NodeInfo | null> {
-  return fetchJson<NodeInfo>(`http://${ip}:${port}/node/info`);
+/** Classify a failed fetch: our own timeout, the cycle deadline, or a network error */
+function probeError(err: unknown, deadline?: AbortSignal): ProbeError {
+  if (deadline?.aborted) return { type: 'deadline', message: 'Poll deadline reached' };
+  const e = err as { name?: string; message?: string; cause?: { code?: string; message?: string } };
+  if (e?.name === 'TimeoutError' || e?.name === 'AbortError') {
+    return { type: 'timeout', message: `No response within ${FETCH_TIMEOUT / 1000}s` };
+  }
+  if (e?.cause?.code === 'ECONNREFUSED') return { type: 'connection-refused', message: 'Connection refused' };
+  return { type: 'network', message: e?.cause?.message ?? e?.message ?? String(err) };
 }
 
-export async function getClusterInfo(ip: string, port: number): Promise<ClusterMember[]> {
-  return (await fetchJson<ClusterMember[]>(`http://${ip}:${port}/cluster/info`)) ?? [];
+async function probeJson<T>(ip: string, port: number, endpoint: string, deadline?: AbortSignal): Promise<ProbeResult<T>> {
+  const timeout = AbortSignal.timeout(FETCH_TIMEOUT);
+  const signal = deadline ? AbortSignal.any([timeout, deadline]) : timeout;
+  try {
+    const res = await fetch(`http://${ip}:${port}${endpoint}`, { signal });
+    if (!res.ok) return { data: null, error: { type: 'http-status', message: `HTTP ${res.status}`, status: res.status, endpoint } };
+    return { data: (await res.json()) as T };
+  } catch (err) {
+    return { data: null, error: { ...probeError(err, deadline), endpoint } };
+  }
 }
 
-export async function getLatestOrdinal(ip: string, port: number, layer: Layer): Promise<number> {
+function probeLatestOrdinal(ip: string, port: number, layer: Layer, deadline?: AbortSignal) {
   // Different layers have different snapshot endpoints
   const endpoint = layer === 'gl0'
     ? '/global-snapshots/latest'
     : '/snapshots/latest';
 
-  const data = await fetchJson<{ value?: { ordinal?: number }; ordinal?: number }>(
-    `http://${ip}:${port}${endpoint}`
-  );
+  return probeJson<{ value?: { ordinal?: number }; ordinal?: number }>(ip, port, endpoint, deadline);
+}
+
+export async function getNodeInfo(ip: string, port: number): Promise<NodeInfo | null> {
+  return (await probeJson<NodeInfo>(ip, port, '/node/info')).data;
+}
+
+export async function getClusterInfo(ip: string, port: number, deadline?: AbortSignal): Promise<ClusterMember[]> {
+  return (await probeJson<ClusterMember[]>(ip, port, '/cluster/info', deadline)).data ?? [];
+}
 
+export async function getLatestOrdinal(ip: string, port: number, layer: Layer, deadline?: AbortSignal): Promise<number> {
+  const { data } = await probeLatestOrdinal(ip, port, layer, deadline);
   return data?.value?.ordinal ?? data?.ordinal ?? -1;
 }
 
 /**
- * Poll full health for one node+layer.
+ * Poll full health for one node+layer. `deadline` aborts the probe when
+ * the polling cycle runs out of time. `error` is the first probe that
+ * failed, in the order /node/info, /cluster/info, latest snapshot — so a
+ * reachable node can still carry one.
  */
 export async function checkNodeHealth(
   ip: string,
   layer: Layer,
   port: number,
+  deadline?: AbortSignal,
 ): Promise<NodeHealth> {
-  const [info, cluster, ordinal] = await Promise.all([
-    getNodeInfo(ip, port),
-    getClusterInfo(ip, port),
-    getLatestOrdinal(ip, port, layer),
+  const started = Date.now();
+  const [info, cluster, snapshot] = await Promise.all([
+    probeJson<NodeInfo>(ip, port, '/node/info', deadline),
+    probeJson<ClusterMember[]>(ip, port, '/cluster/info', deadline),
+    probeLatestOrdinal(ip, port, layer, deadline),
   ]);
 
   return {
     nodeIp: ip,
     layer,
-    reachable: info !== null,
-    state: info?.state ?? 'Unreachable',
-    cluster,
-    ordinal,
+    reachable: info.data !== null,
+    state: info.data?.state ?? 'Unreachable',
+    cluster: cluster.data ?? [],
+    ordinal: snapshot.data?.value?.ordinal ?? snapshot.data?.ordinal ?? -1,
+    clusterSession: info.data?.clusterSession,
+    latencyMs: Date.now() - started,
+    error: info.error ?? cluster.error ?? snapshot.error,
   };
 }
 
@@ -75,8 +97,7 @@ export async function checkLayerHealth(
   config: Config,
   layer: Layer,
 ): Promise<NodeHealth[]> {
-  const port = config.ports[layer];
   return Promise.all(
-    config.nodes.map(n => checkNodeHealth(n.ip, layer, port)),
+    config.nodes.map(n => checkNodeHealth(n.ip, layer, nodePort(config, n, layer))),
   );
 }
@@ -0,0 +1,90 @@
+/**
+ * Prometheus Health Source Tests
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { PrometheusHealthSource } from './prometheus-source.js';
+import { DEFAULT_PROMETHEUS_METRICS, type Config } from '../config.js';
+
+vi.mock('../logger.js', () => ({
+  log: vi.fn(),
+}));
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+const config = {
+  nodes: [
+    { ip: '1.1.1.1', name: 'node1', privateIp: '10.0.0.1' },
+    { ip: '2.2.2.2', name: 'node2' },
+  ],
+  ports: { gl0: 9000, ml0: 9200, cl1: 9300, dl1: 9400 },
+  healthDataStaleSeconds: 60,
+  prometheus: { url: 'http://prometheus:9090/', metrics: DEFAULT_PROMETHEUS_METRICS },
+} as Config;
+
+/**
+ * Stub Prometheus answering each query from `series` (metric name → samples).
+ * Every instance was last scraped `scrapeAges[instance]` (default 5) seconds ago.
+ */
+function stubPrometheus(
+  series: Record<string, Array<[Record<string, string>, string]>>,
+  scrapeAges: Record<string, number> = {},
+): ReturnType<typeof vi.fn> {
+  const now = Date.now() / 1000;
+  const fetchMock = vi.fn(async (url: string) => {
+    const query = new URL(url).searchParams.get('query')!.replace(' == 1', '');
+    const scrapeTimes = /^timestamp\((.+)\)$/.exec(query);
+    const result = scrapeTimes
+      ? (series[scrapeTimes[1]] ?? []).map(([metric]) => ({ metric, value: [now, String(now - (scrapeAges[metric.instance] ?? 5))] }))
+      : (series[query] ?? []).map(([metric, value]) => ({ metric, value: [now, value] }));
+    return Response.json({ status: 'success', data: { resultType: 'vector', result } });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+describe('PrometheusHealthSource', () => {
+  it('maps series to nodes and layers by instance', async () => {
+    const fetchMock = stubPrometheus({
+      up: [
+        [{ instance: '10.0.0.1:9200' }, '1'],
+        [{ instance: '2.2.2.2:9200' }, '0'],
+        [{ instance: '9.9.9.9:9200' }, '1'],
+      ],
+      tessellation_snapshot_ordinal: [[{ instance: '10.0.0.1:9200' }, '1234']],
+      tessellation_node_state: [[{ instance: '10.0.0.1:9200', state: 'Ready' }, '1']],
+      tessellation_cluster_size: [[{ instance: '10.0.0.1:9200' }, '3']],
+    });
+
+    const reading = await new PrometheusHealthSource(config).read();
+
+    expect(fetchMock.mock.calls[0][0]).toMatch(/^http:\/\/prometheus:9090\/api\/v1\/query\?query=/);
+    expect(reading?.nodes).toEqual([
+      { ip: '1.1.1.1', name: 'node1', layers: [{ layer: 'ml0', state: 'Ready', ordinal: 1234, reachable: true, clusterSize: 3 }] },
+      { ip: '2.2.2.2', name: 'node2', layers: [{ layer: 'ml0', state: 'Unreachable', ordinal: -1, reachable: false, clusterSize: 0 }] },
+    ]);
+  });
+
+  it('leaves targets with an old last scrape to the next source', async () => {
+    stubPrometheus({
+      up: [[{ instance: '1.1.1.1:9400' }, '1'], [{ instance: '2.2.2.2:9400' }, '1']],
+    }, { '2.2.2.2:9400': 300 });
+
+    const reading = await new PrometheusHealthSource(config).read();
+    expect(reading?.nodes.map(n => n.ip)).toEqual(['1.1.1.1']);
+    expect(Date.now() - reading!.timestamp.getTime()).toBeGreaterThan(4900);
+  });
+
+  it('returns null for stale data, no matching series or failed queries', async () => {
+    stubPrometheus({ up: [[{ instance: '2.2.2.2:9400' }, '1']] }, { '2.2.2.2:9400': 300 });
+    expect(await new PrometheusHealthSource(config).read()).toBeNull();
+
+    stubPrometheus({ up: [[{ instance: '9.9.9.9:9400' }, '1']] });
+    expect(await new PrometheusHealthSource(config).read()).toBeNull();
+
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 502 })));
+    expect(await new PrometheusHealthSource(config).read()).toBeNull();
+  });
+});
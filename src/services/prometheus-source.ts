@@ -0,0 +1,131 @@
+/**
+ * Prometheus Health Source
+ *
+ * Reads node health from the metrics Prometheus scrapes off each node's
+ * /metrics endpoint. Series are matched to nodes and layers by their
+ * `instance` label (`ip:port`, public or private IP with the layer's public
+ * port). Prometheus knows nothing about peer sets, so snapshots from this
+ * source carry cluster sizes but no cluster hashes.
+ *
+ * An instant query's own timestamp is the evaluation time, so freshness is
+ * read from `timestamp(up)` — each target's last scrape. Targets not
+ * scraped within `healthDataStaleSeconds` are left to the next source.
+ */
+
+import type { Config, NodeConfig, PrometheusMetrics } from '../config.js';
+import { DEFAULT_PROMETHEUS_METRICS, nodePort } from '../config.js';
+import type { Layer, LayerHealth, NodeHealthData } from '../types.js';
+import { ALL_LAYERS } from '../types.js';
+import type { HealthSource, SourceReading } from './health-sources.js';
+import { log } from '../logger.js';
+
+const QUERY_TIMEOUT = 5_000;
+
+/** One sample of an instant-query vector */
+interface PromSample {
+  metric: Record<string, string>;
+  value: [number, string];
+}
+
+interface PromQueryResponse {
+  status: 'success' | 'error';
+  error?: string;
+  data?: { resultType: string; result: PromSample[] };
+}
+
+export class PrometheusHealthSource implements HealthSource {
+  readonly name = 'prometheus';
+  private readonly metrics: PrometheusMetrics;
+
+  constructor(private readonly config: Config) {
+    this.metrics = config.prometheus?.metrics ?? DEFAULT_PROMETHEUS_METRICS;
+  }
+
+  /** Run an instant query. Throws on HTTP or query errors. */
+  private async query(promql: string): Promise<PromSample[]> {
+    const url = `${this.config.prometheus!.url.replace(/\/+$/, '')}/api/v1/query?query=${encodeURIComponent(promql)}`;
+    const res = await fetch(url, { signal: AbortSignal.timeout(QUERY_TIMEOUT) });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const body = (await res.json()) as PromQueryResponse;
+    if (body.status !== 'success' || !body.data) throw new Error(body.error ?? 'query failed');
+    return body.data.result;
+  }
+
+  /** Map `ip:port` instances to the node and layer they belong to */
+  private instanceIndex(): Map<string, { node: NodeConfig; layer: Layer }> {
+    const index = new Map<string, { node: NodeConfig; layer: Layer }>();
+    for (const node of this.config.nodes) {
+      for (const layer of ALL_LAYERS) {
+        const port = nodePort(this.config, node, layer);
+        index.set(`${node.ip}:${port}`, { node, layer });
+        if (node.privateIp) index.set(`${node.privateIp}:${port}`, { node, layer });
+      }
+    }
+    return index;
+  }
+
+  async read(): Promise<SourceReading | null> {
+    if (!this.config.prometheus) return null;
+
+    let up: PromSample[], scrapes: PromSample[], ordinals: PromSample[], states: PromSample[], sizes: PromSample[];
+    try {
+      [up, scrapes, ordinals, states, sizes] = await Promise.all([
+        this.query(this.metrics.up),
+        this.query(`timestamp(${this.metrics.up})`),
+        this.query(this.metrics.ordinal),
+        this.query(`${this.metrics.state} == 1`),
+        this.query(this.metrics.clusterSize),
+      ]);
+    } catch (err) {
+      log(`[HealthReader] Prometheus query failed: ${err instanceof Error ? err.message : err}`);
+      return null;
+    }
+
+    const index = this.instanceIndex();
+    const byInstance = (samples: PromSample[]) => new Map(samples.map(s => [s.metric.instance, s]));
+    const ordinalOf = byInstance(ordinals);
+    const stateOf = byInstance(states);
+    const sizeOf = byInstance(sizes);
+    const scrapedAt = new Map(scrapes.map(s => [s.metric.instance, Number(s.value[1]) * 1000]));
+
+    const nodes = new Map<string, NodeHealthData>();
+    const stale: string[] = [];
+    let oldest = Infinity;
+
+    for (const sample of up) {
+      const target = index.get(sample.metric.instance);
+      if (!target) continue;
+
+      const scraped = scrapedAt.get(sample.metric.instance) ?? NaN;
+      const ageSeconds = (Date.now() - scraped) / 1000;
+      if (!(ageSeconds < this.config.healthDataStaleSeconds)) {
+        stale.push(`${sample.metric.instance} (${Number.isNaN(ageSeconds) ? 'never scraped' : `${ageSeconds.toFixed(0)}s old`})`);
+        continue;
+      }
+
+      oldest = Math.min(oldest, scraped);
+      const reachable = sample.value[1] === '1';
+      const layer: LayerHealth = {
+        layer: target.layer,
+        state: reachable ? stateOf.get(sample.metric.instance)?.metric.state ?? 'Unknown' : 'Unreachable',
+        ordinal: reachable ? Number(ordinalOf.get(sample.metric.instance)?.value[1] ?? -1) : -1,
+        reachable,
+        clusterSize: reachable ? Number(sizeOf.get(sample.metric.instance)?.value[1] ?? 0) : 0,
+      };
+
+      const entry = nodes.get(target.node.ip) ?? { ip: target.node.ip, name: target.node.name, layers: [] };
+      if (!entry.layers.some(l => l.layer === layer.layer)) entry.layers.push(layer);
+      nodes.set(target.node.ip, entry);
+    }
+
+    if (stale.length > 0) log(`[HealthReader] Prometheus data stale for ${stale.join(', ')}`);
+    if (nodes.size === 0) {
+      if (stale.length === 0) log('[HealthReader] Prometheus has no series for the configured nodes');
+      return null;
+    }
+
+    return { timestamp: new Date(oldest), nodes: [...nodes.values()] };
+  }
+
+  async close(): Promise<void> {}
+}
@@ -0,0 +1,81 @@
+/**
+ * Redis Health Payload Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseRedisHealthPayload } from './redis-payload.js';
+import type { NodeConfig } from '../config.js';
+
+const nodes: NodeConfig[] = [
+  { ip: '10.0.0.1', name: 'node1' },
+  { ip: '10.0.0.2', name: 'node2' },
+];
+
+const layer = (overrides: Record<string, unknown> = {}) => ({
+  layer: 'ml0', state: 'Ready', ordinal: 100, reachable: true, clusterSize: 2, clusterHash: 'abc', ...overrides,
+});
+
+const payload = (overrides: Record<string, unknown> = {}) => ({
+  schemaVersion: 1,
+  timestamp: '2026-10-19T12:00:00.000Z',
+  nodes: nodes.map(n => ({ ip: n.ip, name: n.name, layers: [layer()] })),
+  ...overrides,
+});
+
+describe('parseRedisHealthPayload()', () => {
+  it('converts a valid payload', () => {
+    const parsed = parseRedisHealthPayload(payload(), nodes);
+    expect(parsed).toEqual({
+      valid: true,
+      timestamp: new Date('2026-10-19T12:00:00.000Z'),
+      nodes: nodes.map(n => ({
+        ip: n.ip,
+        name: n.name,
+        layers: [{
+          layer: 'ml0', state: 'Ready', ordinal: 100, reachable: true, clusterSize: 2,
+          clusterHash: 'abc', clusterPeers: undefined, clusterSession: undefined,
+        }],
+      })),
+      missing: [],
+    });
+  });
+
+  it('reads payloads without schemaVersion as version 1 and rejects newer versions', () => {
+    const { schemaVersion: _omitted, ...legacy } = payload();
+    expect(parseRedisHealthPayload(legacy, nodes).valid).toBe(true);
+    expect(parseRedisHealthPayload(payload({ schemaVersion: 2 }), nodes)).toEqual({
+      valid: false,
+      issues: ['unsupported schemaVersion 2 (supported: 1–1)'],
+    });
+  });
+
+  it('reports unknown layers and bad ordinals', () => {
+    const parsed = parseRedisHealthPayload(payload({
+      nodes: [{
+        ip: '10.0.0.1',
+        name: 'node1',
+        layers: [
+          layer({ layer: 'ML0' }),
+          layer({ layer: 'gl0', ordinal: '100' }),
+          layer({ layer: 'dl1', ordinal: -5 }),
+          layer({ layer: 'cl1', ordinal: -1, reachable: false, state: 'Unreachable' }),
+        ],
+      }],
+    }), nodes);
+
+    expect(parsed).toEqual({
+      valid: false,
+      issues: [
+        'node 10.0.0.1 layers[0]: unknown layer "ML0" (expected gl0, ml0, cl1, dl1)',
+        'node 10.0.0.1 layers[1]: ordinal "100" is not a whole number',
+        'node 10.0.0.1 layers[2]: negative ordinal -5',
+      ],
+    });
+  });
+
+  it('reports configured nodes the payload leaves out without rejecting it', () => {
+    const parsed = parseRedisHealthPayload(payload({ nodes: [{ ip: '10.0.0.1', name: 'node1', layers: [layer()] }] }), nodes);
+    expect(parsed).toMatchObject({ valid: true, missing: ['10.0.0.2'] });
+    expect(parsed.valid && parsed.nodes.map(n => n.ip)).toEqual(['10.0.0.1']);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Redis Health Payload
+ *
+ * The format the services monitor writes to `monitor:health:latest`, and its
+ * runtime validation. Nothing from the payload reaches the conditions
+ * unchecked: a schema change or typo on the monitor side would otherwise
+ * produce layers or ordinals the detectors silently never match.
+ *
+ * A payload without `schemaVersion` predates the field and is read as
+ * version 1.
+ */
+
+import type { NodeConfig } from '../config.js';
+import type { Layer, LayerHealth, NodeHealthData } from '../types.js';
+import { ALL_LAYERS } from '../types.js';
+
+/** Highest payload schema version this watchdog understands */
+export const REDIS_HEALTH_SCHEMA_VERSION = 1;
+
+/** Redis health data format (as written by services monitor) */
+export interface RedisHealthPayload {
+  schemaVersion?: number;
+  timestamp: string;
+  nodes: Array<{
+    ip: string;
+    name: string;
+    layers: Array<{
+      layer: string;
+      state: string;
+      ordinal: number;
+      reachable: boolean;
+      clusterSize?: number;
+      clusterHash?: string;
+      clusterPeers?: string[];
+      clusterSession?: string;
+    }>;
+  }>;
+}
+
+export type ParsedRedisPayload =
+  | {
+    valid: true;
+    timestamp: Date;
+    nodes: NodeHealthData[];
+    /** Configured node IPs the payload leaves out */
+    missing: string[];
+  }
+  | { valid: false; issues: string[] };
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const isOptional = (v: unknown, type: 'string' | 'number'): boolean => v === undefined || typeof v === type;
+
+function parseLayer(raw: unknown, where: string, issues: string[]): LayerHealth | null {
+  if (!isObject(raw)) {
+    issues.push(`${where}: not an object`);
+    return null;
+  }
+
+  const before = issues.length;
+  const layer = raw.layer;
+  if (typeof layer !== 'string' || !ALL_LAYERS.includes(layer as Layer)) {
+    issues.push(`${where}: unknown layer ${JSON.stringify(layer)} (expected ${ALL_LAYERS.join(', ')})`);
+  }
+  if (typeof raw.state !== 'string') issues.push(`${where}: state must be a string`);
+  if (typeof raw.reachable !== 'boolean') issues.push(`${where}: reachable must be a boolean`);
+
+  // Unreachable layers have no ordinal and report -1
+  const ordinal = raw.ordinal;
+  if (typeof ordinal !== 'number' || !Number.isInteger(ordinal)) {
+    issues.push(`${where}: ordinal ${JSON.stringify(ordinal)} is not a whole number`);
+  } else if (ordinal < 0 && (raw.reachable === true || ordinal !== -1)) {
+    issues.push(`${where}: negative ordinal ${ordinal}`);
+  }
+
+  if (!isOptional(raw.clusterSize, 'number')) issues.push(`${where}: clusterSize must be a number`);
+  if (!isOptional(raw.clusterHash, 'string')) issues.push(`${where}: clusterHash must be a string`);
+  if (!isOptional(raw.clusterSession, 'string')) issues.push(`${where}: clusterSession must be a string`);
+  if (raw.clusterPeers !== undefined && !(Array.isArray(raw.clusterPeers) && raw.clusterPeers.every(p => typeof p === 'string'))) {
+    issues.push(`${where}: clusterPeers must be a list of strings`);
+  }
+  if (issues.length > before) return null;
+
+  return {
+    layer: layer as Layer,
+    state: raw.state as string,
+    ordinal: ordinal as number,
+    reachable: raw.reachable as boolean,
+    clusterSize: (raw.clusterSize as number | undefined) ?? 0,
+    clusterHash: raw.clusterHash as string | undefined,
+    clusterPeers: raw.clusterPeers as string[] | undefined,
+    clusterSession: raw.clusterSession as string | undefined,
+  };
+}
+
+function parseNode(raw: unknown, index: number, issues: string[]): NodeHealthData | null {
+  if (!isObject(raw) || typeof raw.ip !== 'string') {
+    issues.push(`nodes[${index}]: must be an object with an ip`);
+    return null;
+  }
+  const where = `node ${raw.ip}`;
+  if (!Array.isArray(raw.layers)) {
+    issues.push(`${where}: layers must be a list`);
+    return null;
+  }
+
+  const layers = raw.layers.map((l, i) => parseLayer(l, `${where} layers[${i}]`, issues));
+  return {
+    ip: raw.ip,
+    name: typeof raw.name === 'string' ? raw.name : raw.ip,
+    layers: layers.filter((l): l is LayerHealth => l !== null),
+  };
+}
+
+/**
+ * Validate a decoded payload and convert it to our internal format. Any
+ * schema issue rejects the whole payload. Configured nodes the payload
+ * leaves out are reported in `missing` but do not reject it — the next
+ * health source covers them.
+ */
+export function parseRedisHealthPayload(raw: unknown, expected: NodeConfig[]): ParsedRedisPayload {
+  if (!isObject(raw)) return { valid: false, issues: ['payload is not an object'] };
+
+  const issues: string[] = [];
+  const version = raw.schemaVersion ?? 1;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1 || version > REDIS_HEALTH_SCHEMA_VERSION) {
+    // A newer monitor may have changed the meaning of any field
+    return { valid: false, issues: [`unsupported schemaVersion ${JSON.stringify(version)} (supported: 1–${REDIS_HEALTH_SCHEMA_VERSION})`] };
+  }
+
+  const timestamp = new Date(typeof raw.timestamp === 'string' ? raw.timestamp : NaN);
+  if (Number.isNaN(timestamp.getTime())) issues.push(`timestamp ${JSON.stringify(raw.timestamp)} is not a date`);
+
+  if (!Array.isArray(raw.nodes)) {
+    issues.push('nodes must be a list');
+    return { valid: false, issues };
+  }
+
+  const nodes = raw.nodes
+    .map((n, i) => parseNode(n, i, issues))
+    .filter((n): n is NodeHealthData => n !== null);
+
+  if (issues.length > 0) return { valid: false, issues };
+
+  const reported = new Set(nodes.map(n => n.ip));
+  const missing = expected.filter(n => !reported.has(n.ip)).map(n => n.ip);
+  return { valid: true, timestamp, nodes, missing };
+}
@@ -7,10 +7,11 @@
 import { Client } from 'ssh2';
 import { readFileSync } from 'fs';
 import type { Config } from '../config.js';
+import { findNode } from '../config.js';
 import { log } from '../logger.js';
 
 /** Shell-escape a string to prevent command injection */
-function shellEscape(s: string): string {
+export function shellEscape(s: string): string {
   // Only allow alphanumeric, dash, underscore, dot, colon, slash
   if (/^[a-zA-Z0-9._\-/:@]+$/.test(s)) return s;
   return "'" + s.replace(/'/g, "'\''") + "'";
@@ -31,6 +32,9 @@ export async function sshExec(
     throw new Error(`Invalid IP rejected: ${ip}`);
   }
 
+  // Per-node SSH port/user overrides
+  const node = findNode(config, ip);
+
   return new Promise((resolve, reject) => {
     const conn = new Client();
     const timer = setTimeout(() => {
@@ -67,8 +71,8 @@ export async function sshExec(
       })
       .connect({
         host: ip,
-        port: 22,
-        username: config.sshUser,
+        port: node?.sshPort ?? 22,
+        username: node?.sshUser ?? config.sshUser,
         privateKey: readFileSync(config.sshKeyPath),
       });
   });
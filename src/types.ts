@@ -19,6 +19,8 @@ export interface NodeInfo {
   publicPort: number;
   p2pPort: number;
   session?: string;
+  /** Session of the cluster the node has joined — differs between fork partitions */
+  clusterSession?: string;
 }
 
 /** Cluster member from /cluster/info */
@@ -31,6 +33,18 @@ export interface ClusterMember {
   session?: string;
 }
 
+/** Why a node probe failed */
+export type ProbeErrorType = 'timeout' | 'connection-refused' | 'http-status' | 'network' | 'deadline';
+
+export interface ProbeError {
+  type: ProbeErrorType;
+  message: string;
+  /** HTTP status for 'http-status' errors */
+  status?: number;
+  /** Endpoint that failed, e.g. `/cluster/info` */
+  endpoint?: string;
+}
+
 /** Result of a health check on a single node+layer */
 export interface NodeHealth {
   nodeIp: string;
@@ -40,6 +54,12 @@ export interface NodeHealth {
   cluster: ClusterMember[];
   ordinal: number;
   lastSnapshotHash?: string;
+  /** Cluster session the node has joined (from /node/info) */
+  clusterSession?: string;
+  /** Wall time of the probe */
+  latencyMs?: number;
+  /** First probe that failed — /node/info, then /cluster/info, then the latest snapshot */
+  error?: ProbeError;
 }
 
 /** Layer health from a single node (used by health-reader) */
@@ -50,21 +70,50 @@ export interface LayerHealth {
   reachable: boolean;
   clusterSize: number;
   clusterHash?: string;
+  /** Sorted peer ids in the node's cluster view */
+  clusterPeers?: string[];
+  /** Cluster session the node has joined — nodes in different sessions are forked */
+  clusterSession?: string;
+  /** Probe latency (direct polling only) */
+  latencyMs?: number;
+  /** Why the node was unreachable (direct polling only) */
+  error?: ProbeError;
 }
 
+/** State of a configured node or layer that no health source reported */
+export const MISSING_STATE = 'Missing';
+
+/** Where health data came from */
+export type HealthSourceName = 'redis' | 'direct' | 'prometheus';
+
+export const HEALTH_SOURCE_NAMES: HealthSourceName[] = ['redis', 'direct', 'prometheus'];
+
 /** Health data for a single node (used by health-reader) */
 export interface NodeHealthData {
   ip: string;
   name: string;
   layers: LayerHealth[];
+  /** Source that produced this node's data */
+  source?: HealthSourceName;
 }
 
-/** Complete health snapshot from Redis or direct polling */
+/** Complete health snapshot from one or more health sources */
 export interface HealthSnapshot {
   timestamp: Date;
   nodes: NodeHealthData[];
   stale: boolean;
-  source: 'redis' | 'direct';
+  /** The source of every node, or 'mixed' when sources each covered part of the cluster */
+  source: HealthSourceName | 'mixed';
+  /** Sources whose data failed validation and was skipped */
+  rejected?: RejectedSource[];
+  /** IPs a source reported that are not in the config (left out of `nodes`) */
+  unknownNodes?: string[];
+}
+
+/** A health source whose data failed validation */
+export interface RejectedSource {
+  source: HealthSourceName;
+  issues: string[];
 }
 
 /** Detection result */
@@ -75,19 +124,111 @@ export interface DetectionResult {
   restartScope: RestartScope;
   affectedNodes?: string[];
   affectedLayers?: Layer[];
+  /**
+   * Nodes to restart on each layer, when they differ per layer (merged
+   * individual-node detections). Without it every affected node is
+   * restarted on every affected layer.
+   */
+  nodesByLayer?: Partial<Record<Layer, string[]>>;
+  /** Conditions folded into this detection by the remediation merge, highest priority first */
+  mergedConditions?: string[];
+  /** Fork partition, when the minority can be healed by rejoining the majority */
+  fork?: ForkPartition;
+}
+
+/** A forked layer split into its majority and minority partitions */
+export interface ForkPartition {
+  layer: Layer;
+  majorityNodes: string[];
+  minorityNodes: string[];
 }
 
 export type RestartScope = 'none' | 'individual-node' | 'full-layer' | 'full-metagraph';
 
+/** Restart scopes from narrowest to widest */
+export const SCOPE_RANK: Record<RestartScope, number> = {
+  'none': 0,
+  'individual-node': 1,
+  'full-layer': 2,
+  'full-metagraph': 3,
+};
+
+export type PlannedActionType = 'ssh' | 'docker' | 'kill' | 'join' | 'wait-ready';
+
+/** A side effect the orchestrator would have performed */
+export interface PlannedAction {
+  /** 1-based position in the plan */
+  step: number;
+  type: PlannedActionType;
+  /** Target node public IP */
+  node: string;
+  layer?: Layer;
+  container?: string;
+  /** Raw command (ssh actions) */
+  command?: string;
+  /** Docker action (docker actions) */
+  action?: 'stop' | 'start' | 'restart';
+  /** Cluster join reference (join actions) */
+  reference?: { id: string; ip: string; p2pPort: number };
+  /** Ready-wait timeout (wait-ready actions) */
+  timeoutMs?: number;
+  description: string;
+}
+
+/** One post-restart verification check */
+export interface VerificationCheck {
+  check: 'ready' | 'cluster-hash' | 'ordinals' | 'condition';
+  passed: boolean;
+  details: string;
+}
+
+/** Outcome of verifying that a restart actually fixed the problem */
+export interface RestartVerification {
+  passed: boolean;
+  /** First failed check, when verification failed */
+  reason?: string;
+  checks: VerificationCheck[];
+}
+
+/** Snapshot data for one node/layer compared with a direct probe */
+export interface SourceComparison {
+  node: string;
+  layer: Layer;
+  /** Source of the snapshot data */
+  source: HealthSourceName;
+  reported: { reachable: boolean; state: string; ordinal: number };
+  probed: { reachable: boolean; state: string; ordinal: number; error?: string };
+  /** What disagreed — empty when the two match */
+  mismatches: string[];
+}
+
+/** Pre-restart cross-check of cached health data against direct probes */
+export interface SourceCrossCheck {
+  agreed: boolean;
+  comparisons: SourceComparison[];
+}
+
 /** Restart event for logging */
 export interface RestartEvent {
   timestamp: string;
   scope: RestartScope;
   condition: string;
+  /** Every condition the restart covered, when several were merged */
+  conditions?: string[];
   layers: Layer[];
   nodes: string[];
   success: boolean;
   error?: string;
+  /** Scope the detection asked for, when the escalation ladder raised it */
+  escalatedFrom?: RestartScope;
+  /** True when the restart was only planned (dry-run mode) */
+  dryRun?: boolean;
+  /** Actions the restart would have performed (dry-run mode) */
+  plannedActions?: PlannedAction[];
+  /** Post-restart verification (live restarts only) */
+  verification?: RestartVerification;
+  /** Pre-restart cross-check of the snapshot against direct probes */
+  crossCheck?: SourceCrossCheck;
 }
 
 /** Stuck/bad states that indicate unhealthy nodes */